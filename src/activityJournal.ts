@@ -0,0 +1,115 @@
+// === Activity Journal: what happened, when and where ===
+// A capped, timestamped log of the player's actions and notable app events,
+// saved next to each slot's game. Entries about a cell record the token
+// taken from it or left there, which is what the per-cell history shows.
+// Messages are stored as written, in the language of the time.
+import { t } from "./i18n.ts";
+
+export type JournalCategory =
+  | "move"
+  | "pickup"
+  | "merge"
+  | "swap"
+  | "drop"
+  | "mode"
+  | "gps"
+  | "save";
+
+export const JOURNAL_CATEGORIES: Record<JournalCategory, string> = {
+  move: t("journal.category.move"),
+  pickup: t("journal.category.pickup"),
+  merge: t("journal.category.merge"),
+  swap: t("journal.category.swap"),
+  drop: t("journal.category.drop"),
+  mode: t("journal.category.mode"),
+  gps: t("journal.category.gps"),
+  save: t("journal.category.save"),
+};
+
+export interface JournalEntry {
+  // ms since epoch
+  time: number;
+  category: JournalCategory;
+  message: string;
+  // The cell the entry is about, if any
+  cell?: { i: number; j: number };
+  // Token value taken from the cell / left in it
+  taken?: number;
+  left?: number;
+}
+
+// Oldest entries are dropped past this, keeping saves small
+export const MAX_JOURNAL_ENTRIES = 500;
+
+export class ActivityJournal {
+  constructor(
+    private entries: JournalEntry[] = [],
+    private readonly maxEntries: number = MAX_JOURNAL_ENTRIES,
+  ) {
+    this.trim();
+  }
+
+  add(
+    category: JournalCategory,
+    message: string,
+    details: Pick<JournalEntry, "cell" | "taken" | "left"> = {},
+    now: number = Date.now(),
+  ): JournalEntry {
+    const entry: JournalEntry = { time: now, category, message, ...details };
+    this.addEntry(entry);
+    return entry;
+  }
+
+  addEntry(entry: JournalEntry): void {
+    this.entries.push(entry);
+    this.trim();
+  }
+
+  // Newest first, only the given categories (all when omitted)
+  getEntries(categories?: ReadonlySet<JournalCategory>): JournalEntry[] {
+    return this.entries
+      .filter((entry) => !categories || categories.has(entry.category))
+      .reverse();
+  }
+
+  // Newest first, entries about one cell
+  getCellHistory(i: number, j: number): JournalEntry[] {
+    return this.entries
+      .filter((entry) => entry.cell?.i === i && entry.cell.j === j)
+      .reverse();
+  }
+
+  // Switch to another slot's journal
+  load(entries: JournalEntry[]): void {
+    this.entries = entries;
+    this.trim();
+  }
+
+  toJSON(): JournalEntry[] {
+    return this.entries;
+  }
+
+  private trim(): void {
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+}
+
+// Reads a saved journal, skipping entries that don't look like entries
+export function parseJournal(json: string | null): JournalEntry[] {
+  if (!json) return [];
+  try {
+    const saved = JSON.parse(json);
+    if (!Array.isArray(saved)) return [];
+    return saved.filter((entry) =>
+      typeof entry === "object" && entry !== null &&
+      typeof entry.time === "number" &&
+      Object.hasOwn(JOURNAL_CATEGORIES, entry.category) &&
+      typeof entry.message === "string"
+    );
+  } catch (error) {
+    console.error("Failed to read activity journal:", error);
+    return [];
+  }
+}
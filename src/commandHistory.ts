@@ -0,0 +1,87 @@
+// === Command Pattern: undo/redo history ===
+// Commands are the engine's own events, which already carry everything
+// needed to revert or reapply them.
+import type { GameEvent } from "./gameEngine.ts";
+
+export type GameCommand = Extract<
+  GameEvent,
+  {
+    type:
+      | "pickedUp"
+      | "merged"
+      | "swapped"
+      | "dropped"
+      | "slotMerged"
+      | "slotMoved"
+      | "moved";
+  }
+>;
+
+export interface SavedHistory {
+  undo: GameCommand[];
+  redo: GameCommand[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+export class CommandHistory {
+  private undoStack: GameCommand[] = [];
+  private redoStack: GameCommand[] = [];
+
+  constructor(private readonly limit: number = HISTORY_LIMIT) {}
+
+  // A new command makes anything that was undone unreachable
+  record(command: GameCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Returns the command to revert, or undefined if there is none
+  undo(): GameCommand | undefined {
+    const command = this.undoStack.pop();
+    if (command) this.redoStack.push(command);
+    return command;
+  }
+
+  // The command redo would reapply, left in place
+  peekRedo(): GameCommand | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  // Returns the command to reapply, or undefined if there is none
+  redo(): GameCommand | undefined {
+    const command = this.redoStack.pop();
+    if (command) this.undoStack.push(command);
+    return command;
+  }
+
+  // Forget every command of a type, e.g. moves once the player was put
+  // somewhere undoing them would no longer lead back from
+  discard(type: GameCommand["type"]): void {
+    this.undoStack = this.undoStack.filter((command) => command.type !== type);
+    this.redoStack = this.redoStack.filter((command) => command.type !== type);
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  toJSON(): SavedHistory {
+    return { undo: [...this.undoStack], redo: [...this.redoStack] };
+  }
+
+  restore(saved: SavedHistory): void {
+    this.undoStack = saved.undo.slice(-this.limit);
+    this.redoStack = saved.redo.slice(-this.limit);
+  }
+}
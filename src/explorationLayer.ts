@@ -0,0 +1,160 @@
+// === Exploration Layer: the explored area seen from far out ===
+// Fogs the whole map except the cells the player has explored, marks the
+// tokens still lying in them and rings the player's cell. Like the canvas
+// grid renderer it paints one canvas, but only visits explored cells, so
+// thousands of them stay cheap at any zoom.
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+import type { ExploredArea } from "./exploredArea.ts";
+import type { CellRange, GridSource } from "./gridRenderer.ts";
+import { type Palette, PALETTES, tokenColors } from "./palettes.ts";
+
+export type ExplorationSource = Pick<
+  GridSource,
+  "cellBounds" | "cellAt" | "getCell" | "getPlayerPos"
+>;
+
+export class ExplorationLayer extends leaflet.Layer {
+  private readonly canvas = document.createElement("canvas");
+  private frameId: number | null = null;
+  private palette: Palette = PALETTES[0];
+
+  constructor(
+    private readonly source: ExplorationSource,
+    private readonly explored: ExploredArea,
+  ) {
+    super();
+    this.canvas.style.pointerEvents = "none";
+  }
+
+  override onAdd(map: leaflet.Map): this {
+    map.getPanes().overlayPane.appendChild(this.canvas);
+    map.on("moveend resize", this.reset, this);
+    this.reset();
+    return this;
+  }
+
+  override onRemove(map: leaflet.Map): this {
+    this.canvas.remove();
+    map.off("moveend resize", this.reset, this);
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    return this;
+  }
+
+  // Redraw after cells were explored or tokens moved
+  render(): void {
+    this.scheduleDraw();
+  }
+
+  setPalette(palette: Palette): void {
+    this.palette = palette;
+    this.scheduleDraw();
+  }
+
+  // Line the canvas up with the viewport after the map pans or zooms
+  private reset(): void {
+    const size = this._map.getSize();
+    const ratio = globalThis.devicePixelRatio || 1;
+    this.canvas.width = size.x * ratio;
+    this.canvas.height = size.y * ratio;
+    this.canvas.style.width = `${size.x}px`;
+    this.canvas.style.height = `${size.y}px`;
+    leaflet.DomUtil.setPosition(
+      this.canvas,
+      this._map.containerPointToLayerPoint([0, 0]),
+    );
+    this.scheduleDraw();
+  }
+
+  private scheduleDraw(): void {
+    if (this.frameId !== null || !this._map) return;
+    this.frameId = requestAnimationFrame(() => {
+      this.frameId = null;
+      this.draw();
+    });
+  }
+
+  private draw(): void {
+    const context = this.canvas.getContext("2d")!;
+    const ratio = globalThis.devicePixelRatio || 1;
+    const size = this._map.getSize();
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, size.x, size.y);
+
+    const palette = this.palette;
+    context.globalAlpha = palette.fogOpacity;
+    context.fillStyle = palette.fog;
+    context.fillRect(0, 0, size.x, size.y);
+    context.globalAlpha = 1;
+
+    // Cut the explored cells out of the fog, then mark their tokens
+    const range = this.visibleRange();
+    const tokens: { x: number; y: number; size: number; value: number }[] = [];
+    this.explored.forEachCell(range, (i, j) => {
+      const { x, y, width, height } = this.cellRect(i, j);
+      context.clearRect(x, y, width, height);
+      const value = this.source.getCell(i, j);
+      if (value !== undefined) {
+        tokens.push({
+          x: x + width / 2,
+          y: y + height / 2,
+          size: Math.min(width, height),
+          value,
+        });
+      }
+    });
+    tokens.forEach((token) => {
+      context.fillStyle = tokenColors(palette, token.value).background;
+      context.beginPath();
+      context.arc(
+        token.x,
+        token.y,
+        Math.max(2, token.size / 3),
+        0,
+        2 * Math.PI,
+      );
+      context.fill();
+    });
+
+    const player = this.source.getPlayerPos();
+    const { x, y, width, height } = this.cellRect(player.i, player.j);
+    context.strokeStyle = palette.gridStroke;
+    context.lineWidth = 3;
+    context.beginPath();
+    context.arc(
+      x + width / 2,
+      y + height / 2,
+      Math.max(8, width / 2),
+      0,
+      2 * Math.PI,
+    );
+    context.stroke();
+  }
+
+  // Cells covering the viewport, plus a one-cell border
+  private visibleRange(): CellRange {
+    const bounds = this._map.getBounds();
+    const southWest = this.source.cellAt(bounds.getSouthWest());
+    const northEast = this.source.cellAt(bounds.getNorthEast());
+    return {
+      minI: southWest.i - 1,
+      maxI: northEast.i + 1,
+      minJ: southWest.j - 1,
+      maxJ: northEast.j + 1,
+    };
+  }
+
+  // At least a pixel wide, so far-out cells don't vanish
+  private cellRect(i: number, j: number) {
+    const bounds = this.source.cellBounds(i, j);
+    const corner = this._map.latLngToContainerPoint(bounds.getNorthWest());
+    const opposite = this._map.latLngToContainerPoint(bounds.getSouthEast());
+    return {
+      x: Math.min(corner.x, opposite.x),
+      y: Math.min(corner.y, opposite.y),
+      width: Math.max(1, Math.abs(opposite.x - corner.x)),
+      height: Math.max(1, Math.abs(opposite.y - corner.y)),
+    };
+  }
+}
@@ -0,0 +1,217 @@
+// === Explored Area: the cells the player's neighbourhood has passed over ===
+// Cells are grouped into 32×32 chunks, each a bitmap of 32 rows of 32 bits,
+// so a walk through thousands of cells costs a few chunks rather than a
+// key per cell. Saved chunks are their bitmaps in base64 (about 170
+// characters each), keyed by chunk coordinates.
+import type { CellRange } from "./gridRenderer.ts";
+
+export const CHUNK_SIZE = 32;
+const SAVE_VERSION = 1;
+// Longer lines only reveal around their end: a fresh game's player placed
+// far from Null Island, or a GPS fix after a long gap, didn't walk there
+export const MAX_REVEAL_STEPS = 100;
+
+export interface SavedExploredArea {
+  version: number;
+  // "ci,cj" → base64 of the chunk's rows, little-endian
+  chunks: Record<string, string>;
+}
+
+export class ExploredArea {
+  private readonly chunks = new Map<string, Uint32Array>();
+  private count = 0;
+
+  has(i: number, j: number): boolean {
+    const chunk = this.chunks.get(chunkKey(i, j));
+    if (!chunk) return false;
+    return (chunk[mod(i)] & bit(j)) !== 0;
+  }
+
+  // Returns whether the cell was unexplored until now
+  reveal(i: number, j: number): boolean {
+    const key = chunkKey(i, j);
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = new Uint32Array(CHUNK_SIZE);
+      this.chunks.set(key, chunk);
+    }
+    if ((chunk[mod(i)] & bit(j)) !== 0) return false;
+    chunk[mod(i)] |= bit(j);
+    this.count++;
+    return true;
+  }
+
+  // Reveals the square of cells within radius of a cell; returns how many
+  // were new
+  revealAround(i: number, j: number, radius: number): number {
+    let revealed = 0;
+    for (let di = -radius; di <= radius; di++) {
+      for (let dj = -radius; dj <= radius; dj++) {
+        if (this.reveal(i + di, j + dj)) revealed++;
+      }
+    }
+    return revealed;
+  }
+
+  // Reveals around every cell on the straight line between two cells, so
+  // a GPS jump leaves no unexplored gap; past MAX_REVEAL_STEPS, only
+  // around the destination
+  revealAlong(
+    from: { i: number; j: number },
+    to: { i: number; j: number },
+    radius: number,
+  ): number {
+    const steps = Math.max(Math.abs(to.i - from.i), Math.abs(to.j - from.j));
+    if (steps > MAX_REVEAL_STEPS) return this.revealAround(to.i, to.j, radius);
+    let revealed = 0;
+    for (let step = 0; step <= steps; step++) {
+      const fraction = steps === 0 ? 0 : step / steps;
+      revealed += this.revealAround(
+        Math.round(from.i + (to.i - from.i) * fraction),
+        Math.round(from.j + (to.j - from.j) * fraction),
+        radius,
+      );
+    }
+    return revealed;
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+
+  // Smallest range holding every explored cell, or null if there are none
+  getBounds(): CellRange | null {
+    let bounds: CellRange | null = null;
+    this.forEachCell(null, (i, j) => {
+      if (!bounds) {
+        bounds = { minI: i, maxI: i, minJ: j, maxJ: j };
+        return;
+      }
+      bounds.minI = Math.min(bounds.minI, i);
+      bounds.maxI = Math.max(bounds.maxI, i);
+      bounds.minJ = Math.min(bounds.minJ, j);
+      bounds.maxJ = Math.max(bounds.maxJ, j);
+    });
+    return bounds;
+  }
+
+  // Calls back for each explored cell, within a range if one is given;
+  // chunks outside the range are skipped whole
+  forEachCell(
+    range: CellRange | null,
+    callback: (i: number, j: number) => void,
+  ): void {
+    for (const [key, chunk] of this.chunks) {
+      const [ci, cj] = key.split(",").map(Number);
+      const baseI = ci * CHUNK_SIZE;
+      const baseJ = cj * CHUNK_SIZE;
+      if (
+        range && (baseI > range.maxI || baseI + CHUNK_SIZE <= range.minI ||
+          baseJ > range.maxJ || baseJ + CHUNK_SIZE <= range.minJ)
+      ) {
+        continue;
+      }
+      for (let row = 0; row < CHUNK_SIZE; row++) {
+        const bits = chunk[row];
+        if (bits === 0) continue;
+        for (let column = 0; column < CHUNK_SIZE; column++) {
+          if ((bits & bit(column)) === 0) continue;
+          const i = baseI + row;
+          const j = baseJ + column;
+          if (
+            !range || (i >= range.minI && i <= range.maxI &&
+              j >= range.minJ && j <= range.maxJ)
+          ) {
+            callback(i, j);
+          }
+        }
+      }
+    }
+  }
+
+  // Switch to another slot's explored area
+  load(saved: ExploredArea): void {
+    this.chunks.clear();
+    for (const [key, chunk] of saved.chunks) this.chunks.set(key, chunk);
+    this.count = saved.count;
+  }
+
+  toJSON(): SavedExploredArea {
+    const chunks: Record<string, string> = {};
+    for (const [key, chunk] of this.chunks) {
+      const bytes = new Uint8Array(
+        chunk.buffer,
+        chunk.byteOffset,
+        4 * CHUNK_SIZE,
+      );
+      chunks[key] = btoa(String.fromCharCode(...bytes));
+    }
+    return { version: SAVE_VERSION, chunks };
+  }
+}
+
+// Reads a saved explored area, skipping chunks that don't decode; null if
+// nothing readable was saved, so callers can fall back to older data
+export function parseExploredArea(json: string | null): ExploredArea | null {
+  if (!json) return null;
+  let saved: unknown;
+  try {
+    saved = JSON.parse(json);
+  } catch (error) {
+    console.error("Failed to read explored area:", error);
+    return null;
+  }
+  return decodeExploredArea(saved);
+}
+
+// The same, for an area already parsed as part of a larger save
+export function decodeExploredArea(value: unknown): ExploredArea | null {
+  if (typeof value !== "object" || value === null) return null;
+  const saved = value as Partial<SavedExploredArea>;
+  if (
+    saved.version !== SAVE_VERSION || typeof saved.chunks !== "object" ||
+    saved.chunks === null
+  ) {
+    return null;
+  }
+
+  const area = new ExploredArea();
+  for (const [key, encoded] of Object.entries(saved.chunks)) {
+    const [ci, cj] = key.split(",").map(Number);
+    const chunk = decodeChunk(encoded);
+    if (!Number.isInteger(ci) || !Number.isInteger(cj) || !chunk) continue;
+    chunk.forEach((bits, row) => {
+      for (let column = 0; column < CHUNK_SIZE; column++) {
+        if ((bits & bit(column)) !== 0) {
+          area.reveal(ci * CHUNK_SIZE + row, cj * CHUNK_SIZE + column);
+        }
+      }
+    });
+  }
+  return area;
+}
+
+function decodeChunk(encoded: unknown): Uint32Array | null {
+  if (typeof encoded !== "string") return null;
+  try {
+    const bytes = Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+    return bytes.length === 4 * CHUNK_SIZE
+      ? new Uint32Array(bytes.buffer)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function chunkKey(i: number, j: number): string {
+  return `${Math.floor(i / CHUNK_SIZE)},${Math.floor(j / CHUNK_SIZE)}`;
+}
+
+// Row or column of a cell within its chunk, also for negative cells
+function mod(n: number): number {
+  return ((n % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+}
+
+function bit(n: number): number {
+  return 1 << mod(n);
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import {
+  CHUNK_SIZE,
+  ExploredArea,
+  MAX_REVEAL_STEPS,
+  parseExploredArea,
+} from "./exploredArea.ts";
+
+// Every explored cell as "i,j", sorted
+function cells(area: ExploredArea): string[] {
+  const keys: string[] = [];
+  area.forEachCell(null, (i, j) => keys.push(`${i},${j}`));
+  return keys.sort();
+}
+
+Deno.test("revealing counts each cell once, on either side of zero", () => {
+  const area = new ExploredArea();
+  assert.equal(area.reveal(-1, -1), true);
+  assert.equal(area.reveal(-1, -1), false);
+  assert.equal(area.revealAround(0, 0, 1), 8);
+  assert.equal(area.getCount(), 9);
+  assert.ok(area.has(-1, 1));
+  assert.ok(!area.has(2, 0));
+  assert.deepEqual(area.getBounds(), { minI: -1, maxI: 1, minJ: -1, maxJ: 1 });
+});
+
+Deno.test("round-trips through base64, negative chunks included", () => {
+  const area = new ExploredArea();
+  const corners = [
+    [0, 0],
+    [-1, -1],
+    [-CHUNK_SIZE, CHUNK_SIZE - 1],
+    [CHUNK_SIZE * 5 + 31, -CHUNK_SIZE * 7 - 32],
+  ];
+  corners.forEach(([i, j]) => area.reveal(i, j));
+
+  const saved = area.toJSON();
+  assert.equal(Object.keys(saved.chunks).length, 4);
+  Object.values(saved.chunks).forEach((encoded) => {
+    assert.equal(atob(encoded).length, 4 * CHUNK_SIZE);
+  });
+  const restored = parseExploredArea(JSON.stringify(saved));
+  assert.ok(restored);
+  assert.deepEqual(cells(restored), cells(area));
+  assert.equal(restored.getCount(), corners.length);
+});
+
+Deno.test("unreadable saves and chunks are skipped", () => {
+  assert.equal(parseExploredArea(null), null);
+  assert.equal(parseExploredArea("{"), null);
+  assert.equal(parseExploredArea('{"version":2,"chunks":{}}'), null);
+
+  const area = new ExploredArea();
+  area.reveal(3, 4);
+  const { chunks } = area.toJSON();
+  const restored = parseExploredArea(JSON.stringify({
+    version: 1,
+    chunks: { ...chunks, "1,x": chunks["0,0"], "2,2": "short", "3,3": 5 },
+  }));
+  assert.deepEqual(cells(restored!), ["3,4"]);
+});
+
+Deno.test("a walk reveals along its line, a long jump only at its end", () => {
+  const walked = new ExploredArea();
+  walked.revealAlong({ i: 0, j: 0 }, { i: 0, j: MAX_REVEAL_STEPS }, 0);
+  assert.equal(walked.getCount(), MAX_REVEAL_STEPS + 1);
+  assert.ok(walked.has(0, 50));
+
+  const jumped = new ExploredArea();
+  jumped.revealAlong({ i: 0, j: 0 }, { i: 0, j: MAX_REVEAL_STEPS + 1 }, 1);
+  assert.equal(jumped.getCount(), 9);
+  assert.ok(!jumped.has(0, 0));
+  assert.ok(jumped.has(1, MAX_REVEAL_STEPS + 2));
+});
+
+Deno.test("forEachCell skips cells outside the range", () => {
+  const area = new ExploredArea();
+  area.revealAround(0, 0, 2);
+  area.reveal(500, 500);
+  const found: string[] = [];
+  area.forEachCell(
+    { minI: 1, maxI: 600, minJ: -2, maxJ: 0 },
+    (i, j) => found.push(`${i},${j}`),
+  );
+  assert.deepEqual(found.sort(), [
+    "1,-1",
+    "1,-2",
+    "1,0",
+    "2,-1",
+    "2,-2",
+    "2,0",
+  ]);
+});
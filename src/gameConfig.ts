@@ -0,0 +1,148 @@
+// === Game Config: modes, win conditions and tunable rules ===
+// A GameConfig travels with each save, so a game keeps the rules it was
+// started with even if the defaults change.
+import { t } from "./i18n.ts";
+import type { SpawnTable } from "./spawnTables.ts";
+
+export type GameModeId = "classic" | "quick" | "timeAttack" | "stepLimit";
+
+export interface GameConfig {
+  mode: GameModeId;
+  // Token that ends the game (classic, quick, stepLimit)
+  winValue: number;
+  // Time Attack: make the highest token you can before time runs out
+  timeLimitMinutes: number | null;
+  // Step Limit: reach winValue in at most this many moves
+  stepLimit: number | null;
+  interactionRange: number;
+  gridSize: number;
+  inventorySize: number;
+  spawn: SpawnTable;
+  // Emptied cells grow a new token after this long; null means never
+  regenerationMinutes: number | null;
+  // Mixed into every luck roll; "" is the original world everyone shares
+  seed: string;
+}
+
+const BASE_CONFIG: Omit<GameConfig, "mode"> = {
+  winValue: 256,
+  timeLimitMinutes: null,
+  stepLimit: null,
+  interactionRange: 3,
+  gridSize: 5,
+  inventorySize: 4,
+  // 1s and 2s everywhere as before; 4s from about 1 km out and 8s from
+  // about 5 km, growing more common up to ten times that distance
+  spawn: {
+    probability: 0.5,
+    values: [
+      { value: 1, weight: 0.7 },
+      { value: 2, weight: 0.3 },
+      { value: 4, weight: [[100, 0], [1000, 0.2]] },
+      { value: 8, weight: [[500, 0], [5000, 0.1]] },
+    ],
+    origin: "nullIsland",
+    regions: [],
+  },
+  // Opt-in (settings or ?regen=30), so emptied cells stay empty as they
+  // always have unless a game asks otherwise
+  regenerationMinutes: null,
+  seed: "",
+};
+
+export const PRESETS: Record<GameModeId, GameConfig> = {
+  classic: { ...BASE_CONFIG, mode: "classic" },
+  quick: { ...BASE_CONFIG, mode: "quick", winValue: 16 },
+  timeAttack: { ...BASE_CONFIG, mode: "timeAttack", timeLimitMinutes: 10 },
+  stepLimit: { ...BASE_CONFIG, mode: "stepLimit", winValue: 64, stepLimit: 50 },
+};
+
+export const MODE_NAMES: Record<GameModeId, string> = {
+  classic: t("gameMode.classic"),
+  quick: t("gameMode.quick"),
+  timeAttack: t("gameMode.timeAttack"),
+  stepLimit: t("gameMode.stepLimit"),
+};
+
+export function isModeId(value: unknown): value is GameModeId {
+  return typeof value === "string" && Object.hasOwn(PRESETS, value);
+}
+
+// A fresh seed for a world nobody else has, e.g. "k3x9qa"
+export function randomSeed(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return value.toString(36).padStart(6, "0");
+}
+
+// Start from a preset and apply overrides, e.g.
+// ?mode=timeAttack&minutes=5, ?mode=quick&target=32&range=4 or ?seed=cup1
+// Returns null when the URL doesn't mention a config at all
+export function configFromParams(params: URLSearchParams): GameConfig | null {
+  const overrides: Partial<GameConfig> = {};
+  const readInteger = (
+    name: string,
+    key: "winValue" | "interactionRange" | "gridSize" | "inventorySize",
+  ) => {
+    const value = Number(params.get(name));
+    if (params.has(name) && Number.isInteger(value) && value > 0) {
+      overrides[key] = value;
+    }
+  };
+  readInteger("target", "winValue");
+  readInteger("range", "interactionRange");
+  readInteger("grid", "gridSize");
+  readInteger("slots", "inventorySize");
+
+  const minutes = Number(params.get("minutes"));
+  if (params.has("minutes") && minutes > 0) {
+    overrides.timeLimitMinutes = minutes;
+  }
+  // ?regen=30 turns regeneration on, ?regen=0 off
+  const regen = Number(params.get("regen"));
+  if (params.has("regen") && regen >= 0) {
+    overrides.regenerationMinutes = regen > 0 ? regen : null;
+  }
+  const steps = Number(params.get("steps"));
+  if (params.has("steps") && Number.isInteger(steps) && steps > 0) {
+    overrides.stepLimit = steps;
+  }
+
+  const seed = params.get("seed");
+  if (seed !== null) overrides.seed = seed.trim();
+
+  const mode = params.get("mode");
+  if (!isModeId(mode) && Object.keys(overrides).length === 0) return null;
+  return { ...PRESETS[isModeId(mode) ? mode : "classic"], ...overrides };
+}
+
+// Whether two configs agree on every rule a URL can set; the spawn table
+// isn't compared, since old saves keep the table they were started with
+export function sameUrlRules(a: GameConfig, b: GameConfig): boolean {
+  const fields = [
+    "mode",
+    "winValue",
+    "timeLimitMinutes",
+    "stepLimit",
+    "interactionRange",
+    "gridSize",
+    "inventorySize",
+    "regenerationMinutes",
+    "seed",
+  ] as const;
+  return fields.every((field) => a[field] === b[field]);
+}
+
+// Short description of the goal, for the HUD and settings screen
+export function describeGoal(config: GameConfig): string {
+  switch (config.mode) {
+    case "timeAttack":
+      return t("goal.timeAttack", { minutes: config.timeLimitMinutes ?? 0 });
+    case "stepLimit":
+      return t("goal.stepLimit", {
+        value: config.winValue,
+        count: config.stepLimit ?? 0,
+      });
+    default:
+      return t("goal.make", { value: config.winValue });
+  }
+}
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { configFromParams, PRESETS, sameUrlRules } from "./gameConfig.ts";
+
+const fromUrl = (search: string) =>
+  configFromParams(new URLSearchParams(search));
+
+Deno.test("a URL without config parameters sets nothing", () => {
+  assert.equal(fromUrl(""), null);
+  assert.equal(fromUrl("?mode=hard"), null);
+});
+
+Deno.test("URL parameters override the preset", () => {
+  assert.deepEqual(fromUrl("?mode=timeAttack&minutes=5&regen=15&seed= cup "), {
+    ...PRESETS.timeAttack,
+    timeLimitMinutes: 5,
+    regenerationMinutes: 15,
+    seed: "cup",
+  });
+  assert.deepEqual(fromUrl("?range=4&steps=1.5"), {
+    ...PRESETS.classic,
+    interactionRange: 4,
+  });
+});
+
+Deno.test("a saved game differs from a link if any URL rule does", () => {
+  // An older game's spawn table isn't a rule a link sets
+  const saved = {
+    ...PRESETS.quick,
+    spawn: { ...PRESETS.quick.spawn, probability: 0.25 },
+  };
+  assert.ok(sameUrlRules(fromUrl("?mode=quick")!, saved));
+  assert.ok(!sameUrlRules(fromUrl("?mode=classic")!, saved));
+  assert.ok(!sameUrlRules(fromUrl("?mode=quick&range=5")!, saved));
+  assert.ok(!sameUrlRules(fromUrl("?mode=quick&seed=cup")!, saved));
+});
+
+Deno.test("regeneration is off unless a game opts in", () => {
+  Object.values(PRESETS).forEach((preset) => {
+    assert.equal(preset.regenerationMinutes, null);
+  });
+  assert.equal(fromUrl("?regen=0")!.regenerationMinutes, null);
+});
@@ -0,0 +1,680 @@
+// === Game Engine: headless game rules ===
+// Everything about tokens, cells and the player lives here, with no Leaflet
+// and no DOM, so the same rules can drive the map UI, tools and bots.
+import luck from "./_luck.ts";
+import {
+  CommandHistory,
+  type GameCommand,
+  type SavedHistory,
+} from "./commandHistory.ts";
+import { type GameConfig, PRESETS } from "./gameConfig.ts";
+import { evaluateCurve, ratesAt, type SpawnRates } from "./spawnTables.ts";
+
+export interface GridPos {
+  i: number;
+  j: number;
+}
+
+// Size of a grid cell in degrees; cell (i, j) has its south-west corner at
+// (i, j) * TILE_DEGREES, so cell (0, 0) is at Null Island
+export const TILE_DEGREES = 1e-4;
+
+// Events returned by engine operations, for the UI (or a bot) to react to
+// slot is the inventory slot the token came from or went into
+export type GameEvent =
+  | { type: "pickedUp"; i: number; j: number; value: number; slot: number }
+  | { type: "merged"; i: number; j: number; value: number; slot: number }
+  | {
+    type: "swapped";
+    i: number;
+    j: number;
+    held: number;
+    left: number;
+    slot: number;
+  }
+  | { type: "dropped"; i: number; j: number; value: number; slot: number }
+  | { type: "slotMerged"; from: number; to: number; value: number }
+  | { type: "slotMoved"; from: number; to: number; value: number }
+  | { type: "slotSelected"; slot: number }
+  | { type: "outOfRange"; i: number; j: number; range: number }
+  | { type: "nothing"; i: number; j: number }
+  | { type: "moved"; from: GridPos; to: GridPos }
+  // The first fix of a fresh game put the player there; not a move
+  | { type: "placed"; from: GridPos; to: GridPos }
+  | { type: "gameOver"; result: GameResult }
+  | { type: "undone"; command: GameCommand }
+  | { type: "redone"; command: GameCommand };
+
+// Memento: object that stores saved game state
+// cellContents only holds cells that differ from their luck() spawn;
+// EMPTY_CELL marks a cell the player emptied
+// Bump SAVE_VERSION and add a migration in saveFormat.ts on format changes
+export const SAVE_VERSION = 8;
+
+export interface SavedGameState {
+  version: number;
+  // Bumped on every write to storage, so a tab can tell when another tab
+  // saved over the game it loaded
+  revision: number;
+  config: GameConfig;
+  playerPos: GridPos;
+  startPos: GridPos;
+  inventory: (number | null)[];
+  activeSlot: number;
+  cellContents: Record<string, number>;
+  // When each EMPTY_CELL was emptied (ms since epoch), for regeneration
+  emptiedAt: Record<string, number>;
+  history: SavedHistory;
+  moveCount: number;
+  highestToken: number;
+  startedAt: number;
+  result: GameResult | null;
+}
+
+// How a game ended, for the end-of-game summary
+export interface GameResult {
+  outcome: "won" | "timeUp" | "outOfSteps";
+  highestToken: number;
+  moves: number;
+  elapsedMs: number;
+}
+
+export const EMPTY_CELL = 0;
+
+export function cellKey(i: number, j: number): string {
+  return `${i},${j}`;
+}
+
+export class GameEngine {
+  // flyweight: only cells that diverged from their spawn are stored
+  private readonly cellContents = new Map<string, number>();
+  private readonly emptiedAt = new Map<string, number>();
+  private inventory: (number | null)[];
+  private activeSlot = 0;
+  private readonly playerPos: GridPos = { i: 0, j: 0 };
+  // Where the game started, for spawn tables measured from the start
+  private startPos: GridPos = { i: 0, j: 0 };
+  private readonly history = new CommandHistory();
+  private moveCount = 0;
+  private highestToken = 0;
+  private startedAt: number;
+  private result: GameResult | null = null;
+  private revision = 0;
+  // A spectating tab watches another tab's game without changing it
+  private readOnly = false;
+
+  // now is injectable so tools and bots can run games on their own clock
+  constructor(
+    private config: GameConfig = PRESETS.classic,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.inventory = new Array(config.inventorySize).fill(null);
+    this.startedAt = now();
+  }
+
+  getConfig(): GameConfig {
+    return this.config;
+  }
+
+  getMoveCount(): number {
+    return this.moveCount;
+  }
+
+  getHighestToken(): number {
+    return this.highestToken;
+  }
+
+  getResult(): GameResult | null {
+    return this.result;
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  // The revision the stored copy of this game is at after a save
+  setRevision(revision: number): void {
+    this.revision = revision;
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  // While read-only, every play operation does nothing; restore() still
+  // works so the game can follow another tab
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  // Time Attack only: milliseconds left, never negative
+  getTimeLeftMs(): number | null {
+    if (this.config.timeLimitMinutes === null) return null;
+    const limit = this.config.timeLimitMinutes * 60_000;
+    return Math.max(0, limit - (this.now() - this.startedAt));
+  }
+
+  // Step Limit only: moves left
+  getStepsLeft(): number | null {
+    if (this.config.stepLimit === null) return null;
+    return Math.max(0, this.config.stepLimit - this.moveCount);
+  }
+
+  // Ends a Time Attack game once its time is up; call it from a timer
+  checkTime(): GameEvent[] {
+    if (this.result || this.readOnly || this.getTimeLeftMs() !== 0) {
+      return [];
+    }
+    return this.end("timeUp");
+  }
+
+  getPlayerPos(): GridPos {
+    return { i: this.playerPos.i, j: this.playerPos.j };
+  }
+
+  getInventory(): (number | null)[] {
+    return [...this.inventory];
+  }
+
+  getActiveSlot(): number {
+    return this.activeSlot;
+  }
+
+  // The token in the active inventory slot, used for cell interactions
+  getHeldToken(): number | null {
+    return this.inventory[this.activeSlot];
+  }
+
+  // Returns the token in a cell: the stored value if the player changed it,
+  // otherwise its deterministic luck() spawn; an emptied cell holds its
+  // regenerated token once the cooldown is over
+  getCell(i: number, j: number): number | undefined {
+    const key = cellKey(i, j);
+    const stored = this.cellContents.get(key);
+    if (stored === undefined) {
+      return spawnValue(i, j, this.config, this.getSpawnOrigin());
+    }
+    if (stored !== EMPTY_CELL) return stored;
+
+    const readyAt = this.getReadyAt(key);
+    if (readyAt === null || this.now() < readyAt) return undefined;
+    // One roll per cell and cooldown period, so waiting is the only way to
+    // get another
+    const epoch = Math.floor(readyAt / this.getCooldownMs()!);
+    return regeneratedValue(i, j, epoch, this.config, this.getSpawnOrigin());
+  }
+
+  // Milliseconds until an emptied cell regenerates, or null if it isn't
+  // recharging
+  getRegenerationTimeLeft(i: number, j: number): number | null {
+    const key = cellKey(i, j);
+    if (this.cellContents.get(key) !== EMPTY_CELL) return null;
+    const readyAt = this.getReadyAt(key);
+    if (readyAt === null) return null;
+    const left = readyAt - this.now();
+    return left > 0 ? left : null;
+  }
+
+  // Cells the player emptied, recharging or already grown back
+  getEmptiedCells(): GridPos[] {
+    return [...this.emptiedAt.keys()].map((key) => {
+      const [i, j] = key.split(",").map(Number);
+      return { i, j };
+    });
+  }
+
+  private getCooldownMs(): number | null {
+    const minutes = this.config.regenerationMinutes;
+    return minutes === null ? null : minutes * 60_000;
+  }
+
+  private getReadyAt(key: string): number | null {
+    const cooldown = this.getCooldownMs();
+    const emptiedAt = this.emptiedAt.get(key);
+    if (cooldown === null || emptiedAt === undefined) return null;
+    return emptiedAt + cooldown;
+  }
+
+  private setCell(i: number, j: number, value: number | undefined): void {
+    const key = cellKey(i, j);
+    if (value === spawnValue(i, j, this.config, this.getSpawnOrigin())) {
+      this.cellContents.delete(key);
+      this.emptiedAt.delete(key);
+    } else if (value === undefined) {
+      this.cellContents.set(key, EMPTY_CELL);
+      this.emptiedAt.set(key, this.now());
+    } else {
+      this.cellContents.set(key, value);
+      this.emptiedAt.delete(key);
+    }
+  }
+
+  getStartPos(): GridPos {
+    return { ...this.startPos };
+  }
+
+  // The cell spawn rarity is measured from
+  getSpawnOrigin(): GridPos {
+    return this.config.spawn.origin === "start"
+      ? this.startPos
+      : { i: 0, j: 0 };
+  }
+
+  isInRange(i: number, j: number): boolean {
+    const distI = Math.abs(i - this.playerPos.i);
+    const distJ = Math.abs(j - this.playerPos.j);
+    const range = this.config.interactionRange;
+    return distI <= range && distJ <= range;
+  }
+
+  // Click on a cell: pick up, merge, swap or drop the active slot's token
+  interact(i: number, j: number): GameEvent[] {
+    if (this.readOnly) return [];
+    const over = this.checkOver();
+    if (over.length > 0) return over;
+    if (!this.isInRange(i, j)) {
+      return [{
+        type: "outOfRange",
+        i,
+        j,
+        range: this.config.interactionRange,
+      }];
+    }
+
+    const slot = this.activeSlot;
+    const held = this.inventory[slot];
+    const cellValue = this.getCell(i, j);
+
+    let command: GameCommand;
+    if (cellValue === undefined) {
+      if (held === null) return [{ type: "nothing", i, j }];
+      command = { type: "dropped", i, j, value: held, slot };
+    } else if (held === null) {
+      command = { type: "pickedUp", i, j, value: cellValue, slot };
+    } else if (held === cellValue) {
+      command = { type: "merged", i, j, value: held * 2, slot };
+    } else {
+      command = { type: "swapped", i, j, held: cellValue, left: held, slot };
+    }
+
+    return this.execute(command);
+  }
+
+  // Choose which inventory slot cell interactions use
+  selectSlot(slot: number): GameEvent[] {
+    if (this.readOnly) return [];
+    if (!this.isSlot(slot) || slot === this.activeSlot) return [];
+    this.activeSlot = slot;
+    return [{ type: "slotSelected", slot }];
+  }
+
+  // Merge the token in one inventory slot into another: equal tokens merge,
+  // an empty target just receives the token
+  mergeSlots(from: number, to: number): GameEvent[] {
+    if (this.readOnly) return [];
+    const over = this.checkOver();
+    if (over.length > 0) return over;
+    if (!this.isSlot(from) || !this.isSlot(to) || from === to) return [];
+    const value = this.inventory[from];
+    const target = this.inventory[to];
+    if (value === null) return [];
+
+    if (target === null) {
+      return this.execute({ type: "slotMoved", from, to, value });
+    }
+    if (target === value) {
+      return this.execute({ type: "slotMerged", from, to, value: value * 2 });
+    }
+    return [];
+  }
+
+  // Move the player by a number of cells (buttons); can be undone
+  move(di: number, dj: number): GameEvent[] {
+    const events = this.travel(
+      this.playerPos.i + di,
+      this.playerPos.j + dj,
+      false,
+    );
+    events.forEach((event) => {
+      if (event.type === "moved") this.history.record(event);
+    });
+    return events;
+  }
+
+  // Move the player to an absolute cell (geolocation); real-world movement
+  // isn't undoable, so it isn't recorded, and earlier moves can no longer
+  // be undone either: they would lead back from a cell the player left
+  // Each cell crossed counts as one move towards a Step Limit; once the game
+  // is over the player can still walk around, but moves no longer count
+  // The first fix of a fresh game places the player instead: it becomes the
+  // start and doesn't count as moves
+  moveTo(i: number, j: number): GameEvent[] {
+    const events = this.travel(i, j, this.isFresh());
+    if (events.some((event) => event.type === "moved")) {
+      this.history.discard("moved");
+    }
+    return events;
+  }
+
+  private travel(i: number, j: number, placing: boolean): GameEvent[] {
+    if (this.readOnly) return [];
+    const from = this.getPlayerPos();
+    if (from.i === i && from.j === j) return [];
+    if (!this.result) {
+      const over = this.checkMoveLimits();
+      if (over.length > 0) return over;
+    }
+
+    const command: GameCommand = { type: "moved", from, to: { i, j } };
+    this.apply(command);
+    if (placing) {
+      this.startPos = { i, j };
+      return [{ type: "placed", from, to: { i, j } }];
+    }
+    if (!this.result) this.moveCount += cellsBetween(from, { i, j });
+    return [command];
+  }
+
+  // Nothing has happened yet: the player is still at Null Island with no
+  // moves, nothing collected and nothing to undo
+  private isFresh(): boolean {
+    const atNullIsland = (pos: GridPos) => pos.i === 0 && pos.j === 0;
+    return atNullIsland(this.playerPos) && atNullIsland(this.startPos) &&
+      this.moveCount === 0 && this.highestToken === 0 &&
+      this.cellContents.size === 0 && !this.history.canUndo();
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  undo(): GameEvent[] {
+    if (this.result || this.readOnly) return [];
+    const command = this.history.undo();
+    if (!command) return [];
+    this.revert(command);
+    // An undone move gives its moves back
+    if (command.type === "moved") {
+      this.moveCount = Math.max(
+        0,
+        this.moveCount - cellsBetween(command.from, command.to),
+      );
+    }
+    return [{ type: "undone", command }];
+  }
+
+  redo(): GameEvent[] {
+    if (this.result || this.readOnly) return [];
+    // A redone move costs its steps like a new one
+    if (this.history.peekRedo()?.type === "moved") {
+      const over = this.checkMoveLimits();
+      if (over.length > 0) return over;
+    }
+    const command = this.history.redo();
+    if (!command) return [];
+    this.apply(command);
+    if (command.type === "moved") {
+      this.moveCount += cellsBetween(command.from, command.to);
+    }
+    return [{ type: "redone", command }];
+  }
+
+  private execute(command: GameCommand): GameEvent[] {
+    this.apply(command);
+    this.history.record(command);
+    const events: GameEvent[] = [command];
+    if (
+      this.config.mode !== "timeAttack" &&
+      this.highestToken >= this.config.winValue
+    ) {
+      events.push(...this.end("won"));
+    }
+    return events;
+  }
+
+  // A move with no time or steps left ends the game instead
+  private checkMoveLimits(): GameEvent[] {
+    const timeUp = this.checkTime();
+    if (timeUp.length > 0) return timeUp;
+    if (this.getStepsLeft() === 0) return this.end("outOfSteps");
+    return [];
+  }
+
+  // A finished game refuses further play; Time Attack also ends here when
+  // its time ran out between timer checks
+  private checkOver(): GameEvent[] {
+    if (this.result) return [{ type: "gameOver", result: this.result }];
+    return this.checkTime();
+  }
+
+  private end(outcome: GameResult["outcome"]): GameEvent[] {
+    this.result = {
+      outcome,
+      highestToken: this.highestToken,
+      moves: this.moveCount,
+      elapsedMs: this.now() - this.startedAt,
+    };
+    return [{ type: "gameOver", result: this.result }];
+  }
+
+  private hold(slot: number, token: number | null): void {
+    this.inventory[slot] = token;
+    if (token !== null) this.highestToken = Math.max(this.highestToken, token);
+  }
+
+  // Put the state from after a command in place
+  private apply(command: GameCommand): void {
+    switch (command.type) {
+      case "pickedUp":
+      case "merged":
+        this.setCell(command.i, command.j, undefined);
+        this.hold(command.slot, command.value);
+        break;
+      case "swapped":
+        this.setCell(command.i, command.j, command.left);
+        this.hold(command.slot, command.held);
+        break;
+      case "dropped":
+        this.setCell(command.i, command.j, command.value);
+        this.hold(command.slot, null);
+        break;
+      case "slotMerged":
+      case "slotMoved":
+        this.hold(command.from, null);
+        this.hold(command.to, command.value);
+        break;
+      case "moved":
+        this.playerPos.i = command.to.i;
+        this.playerPos.j = command.to.j;
+        break;
+    }
+  }
+
+  // Put the state from before a command back
+  private revert(command: GameCommand): void {
+    switch (command.type) {
+      case "pickedUp":
+        this.setCell(command.i, command.j, command.value);
+        this.inventory[command.slot] = null;
+        break;
+      case "merged":
+        this.setCell(command.i, command.j, command.value / 2);
+        this.inventory[command.slot] = command.value / 2;
+        break;
+      case "swapped":
+        this.setCell(command.i, command.j, command.held);
+        this.inventory[command.slot] = command.left;
+        break;
+      case "dropped":
+        this.setCell(command.i, command.j, undefined);
+        this.inventory[command.slot] = command.value;
+        break;
+      case "slotMerged":
+        this.inventory[command.from] = command.value / 2;
+        this.inventory[command.to] = command.value / 2;
+        break;
+      case "slotMoved":
+        this.inventory[command.from] = command.value;
+        this.inventory[command.to] = null;
+        break;
+      case "moved":
+        this.playerPos.i = command.from.i;
+        this.playerPos.j = command.from.j;
+        break;
+    }
+  }
+
+  private isSlot(slot: number): boolean {
+    return Number.isInteger(slot) && slot >= 0 &&
+      slot < this.inventory.length;
+  }
+
+  // New game, optionally with different rules
+  reset(config: GameConfig = this.config): void {
+    this.config = config;
+    this.playerPos.i = 0;
+    this.playerPos.j = 0;
+    this.startPos = { i: 0, j: 0 };
+    this.inventory = new Array(config.inventorySize).fill(null);
+    this.activeSlot = 0;
+    this.cellContents.clear();
+    this.emptiedAt.clear();
+    this.history.clear();
+    this.moveCount = 0;
+    this.highestToken = 0;
+    this.startedAt = this.now();
+    this.result = null;
+    this.revision = 0;
+  }
+
+  toMemento(): SavedGameState {
+    return {
+      version: SAVE_VERSION,
+      revision: this.revision,
+      config: this.config,
+      playerPos: this.getPlayerPos(),
+      startPos: this.getStartPos(),
+      inventory: this.getInventory(),
+      activeSlot: this.activeSlot,
+      cellContents: Object.fromEntries(this.cellContents),
+      emptiedAt: Object.fromEntries(this.emptiedAt),
+      history: this.history.toJSON(),
+      moveCount: this.moveCount,
+      highestToken: this.highestToken,
+      startedAt: this.startedAt,
+      result: this.result,
+    };
+  }
+
+  // The save's own config replaces this engine's; an inventory longer than
+  // the config says is kept, so no token is ever lost
+  restore(gameState: SavedGameState): void {
+    this.config = gameState.config;
+    this.playerPos.i = gameState.playerPos.i;
+    this.playerPos.j = gameState.playerPos.j;
+    this.startPos = { ...gameState.startPos };
+
+    const size = Math.max(
+      this.config.inventorySize,
+      gameState.inventory.length,
+    );
+    this.inventory = new Array(size).fill(null);
+    gameState.inventory.forEach((token, slot) => this.inventory[slot] = token);
+    this.activeSlot = this.isSlot(gameState.activeSlot)
+      ? gameState.activeSlot
+      : 0;
+
+    this.cellContents.clear();
+    Object.entries(gameState.cellContents).forEach(([key, value]) => {
+      const [i, j] = key.split(",").map(Number);
+      this.setCell(i, j, value === EMPTY_CELL ? undefined : value);
+    });
+    // setCell stamps emptied cells with the current time; use the saved ones
+    this.emptiedAt.clear();
+    Object.entries(gameState.emptiedAt).forEach(([key, time]) => {
+      if (this.cellContents.get(key) === EMPTY_CELL) {
+        this.emptiedAt.set(key, time);
+      }
+    });
+
+    this.history.restore(gameState.history);
+    this.moveCount = gameState.moveCount;
+    this.highestToken = gameState.highestToken;
+    this.startedAt = gameState.startedAt;
+    this.result = gameState.result;
+    this.revision = gameState.revision;
+  }
+}
+
+// Cells crossed going from one cell to another, diagonals counting as one
+export function cellsBetween(from: GridPos, to: GridPos): number {
+  return Math.max(Math.abs(to.i - from.i), Math.abs(to.j - from.j));
+}
+
+// luck() for one world: the seed prefixes every situation, and the empty
+// seed leaves them unchanged so the original world is still seed ""
+export function seededLuck(seed: string, situation: string): number {
+  return luck(seed ? `${seed}:${situation}` : situation);
+}
+
+// Deterministic initial token for a cell, or undefined if it spawns empty
+// Rates come from the region the cell's centre is in (or the table itself)
+// at the cell's distance in cells from origin
+export function spawnValue(
+  i: number,
+  j: number,
+  config: GameConfig,
+  origin: GridPos = { i: 0, j: 0 },
+): number | undefined {
+  const key = cellKey(i, j);
+  const { rates, distance } = cellRates(i, j, config, origin);
+  const probability = evaluateCurve(rates.probability, distance);
+  if (seededLuck(config.seed, key) >= probability) return undefined;
+  return pickValue(rates, distance, seededLuck(config.seed, key + "value"));
+}
+
+// Token an emptied cell grows back in a given regeneration epoch; always a
+// token, with the same value odds as the cell's spawn
+export function regeneratedValue(
+  i: number,
+  j: number,
+  epoch: number,
+  config: GameConfig,
+  origin: GridPos = { i: 0, j: 0 },
+): number | undefined {
+  const { rates, distance } = cellRates(i, j, config, origin);
+  const roll = seededLuck(config.seed, `${cellKey(i, j)}regen${epoch}`);
+  return pickValue(rates, distance, roll);
+}
+
+function cellRates(i: number, j: number, config: GameConfig, origin: GridPos) {
+  return {
+    rates: ratesAt(
+      config.spawn,
+      (i + 0.5) * TILE_DEGREES,
+      (j + 0.5) * TILE_DEGREES,
+    ),
+    distance: Math.hypot(i - origin.i, j - origin.j),
+  };
+}
+
+// Weighted choice of a value for a roll in [0, 1)
+function pickValue(
+  rates: SpawnRates,
+  distance: number,
+  roll: number,
+): number | undefined {
+  const weights = rates.values.map((spawn) =>
+    evaluateCurve(spawn.weight, distance)
+  );
+  let remaining = roll * weights.reduce((sum, weight) => sum + weight, 0);
+  for (const [index, spawn] of rates.values.entries()) {
+    remaining -= weights[index];
+    if (remaining < 0) return spawn.value;
+  }
+  return rates.values[rates.values.length - 1]?.value;
+}
@@ -0,0 +1,270 @@
+import assert from "node:assert/strict";
+import { type GameConfig, PRESETS } from "./gameConfig.ts";
+import { GameEngine } from "./gameEngine.ts";
+
+// Every cell spawns a 1 and nothing regrows, so each rule can be set up
+// with a few clicks
+const ONES: GameConfig = {
+  ...PRESETS.classic,
+  spawn: {
+    probability: 1,
+    values: [{ value: 1, weight: 1 }],
+    origin: "nullIsland",
+    regions: [],
+  },
+  regenerationMinutes: null,
+};
+
+// A clock the test moves by hand
+function fakeClock(start = 1_000_000) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => time += ms,
+  };
+}
+
+Deno.test("picks up a token into the active slot", () => {
+  const engine = new GameEngine(ONES);
+  assert.deepEqual(engine.interact(1, 0), [
+    { type: "pickedUp", i: 1, j: 0, value: 1, slot: 0 },
+  ]);
+  assert.equal(engine.getCell(1, 0), undefined);
+  assert.equal(engine.getHeldToken(), 1);
+  assert.equal(engine.getHighestToken(), 1);
+});
+
+Deno.test("merges a held token with an equal one", () => {
+  const engine = new GameEngine(ONES);
+  engine.interact(1, 0);
+  assert.deepEqual(engine.interact(0, 1), [
+    { type: "merged", i: 0, j: 1, value: 2, slot: 0 },
+  ]);
+  assert.equal(engine.getCell(0, 1), undefined);
+  assert.equal(engine.getHeldToken(), 2);
+});
+
+Deno.test("swaps a held token with a different one", () => {
+  const engine = new GameEngine(ONES);
+  engine.interact(1, 0);
+  engine.interact(0, 1);
+  assert.deepEqual(engine.interact(1, 1), [
+    { type: "swapped", i: 1, j: 1, held: 1, left: 2, slot: 0 },
+  ]);
+  assert.equal(engine.getCell(1, 1), 2);
+  assert.equal(engine.getHeldToken(), 1);
+});
+
+Deno.test("drops a held token into an empty cell", () => {
+  const engine = new GameEngine(ONES);
+  engine.interact(1, 0);
+  assert.deepEqual(engine.interact(1, 0), [
+    { type: "dropped", i: 1, j: 0, value: 1, slot: 0 },
+  ]);
+  assert.equal(engine.getCell(1, 0), 1);
+  assert.equal(engine.getHeldToken(), null);
+});
+
+Deno.test("does nothing with an empty hand and an empty cell", () => {
+  const engine = new GameEngine(ONES);
+  engine.interact(1, 0);
+  engine.selectSlot(1);
+  assert.deepEqual(engine.interact(1, 0), [{ type: "nothing", i: 1, j: 0 }]);
+  assert.equal(engine.canUndo(), true);
+  assert.deepEqual(engine.getInventory(), [1, null, null, null]);
+});
+
+Deno.test("refuses cells out of range", () => {
+  const engine = new GameEngine(ONES);
+  const range = ONES.interactionRange;
+  assert.deepEqual(engine.interact(range + 1, 0), [
+    { type: "outOfRange", i: range + 1, j: 0, range },
+  ]);
+  assert.deepEqual(engine.interact(-range, range).map((e) => e.type), [
+    "pickedUp",
+  ]);
+  assert.equal(engine.getCell(range + 1, 0), 1);
+});
+
+Deno.test("wins once the target token is made", () => {
+  const engine = new GameEngine({ ...ONES, winValue: 2 });
+  engine.interact(1, 0);
+  const events = engine.interact(0, 1);
+  assert.deepEqual(events.map((event) => event.type), ["merged", "gameOver"]);
+  assert.equal(engine.getResult()?.outcome, "won");
+  assert.equal(engine.getResult()?.highestToken, 2);
+});
+
+Deno.test("time attack never ends on a token, only on time", () => {
+  const clock = fakeClock();
+  const engine = new GameEngine(
+    { ...ONES, mode: "timeAttack", winValue: 2, timeLimitMinutes: 1 },
+    clock.now,
+  );
+  engine.interact(1, 0);
+  assert.deepEqual(engine.interact(0, 1).map((event) => event.type), [
+    "merged",
+  ]);
+  assert.equal(engine.getTimeLeftMs(), 60_000);
+
+  clock.advance(59_999);
+  assert.deepEqual(engine.checkTime(), []);
+  clock.advance(1);
+  assert.equal(engine.checkTime()[0]?.type, "gameOver");
+  assert.equal(engine.getResult()?.outcome, "timeUp");
+  assert.equal(engine.getResult()?.elapsedMs, 60_000);
+});
+
+Deno.test("a finished game refuses play but still lets the player walk", () => {
+  const engine = new GameEngine({ ...ONES, winValue: 2 });
+  engine.interact(1, 0);
+  engine.interact(0, 1);
+  const result = engine.getResult();
+  const moves = engine.getMoveCount();
+
+  assert.deepEqual(engine.interact(1, 1), [{ type: "gameOver", result }]);
+  assert.deepEqual(engine.mergeSlots(0, 1), [{ type: "gameOver", result }]);
+  assert.deepEqual(engine.undo(), []);
+  assert.equal(engine.getHeldToken(), 2);
+
+  assert.equal(engine.move(1, 0)[0]?.type, "moved");
+  assert.deepEqual(engine.getPlayerPos(), { i: 1, j: 0 });
+  assert.equal(engine.getMoveCount(), moves);
+});
+
+Deno.test("time running out between checks ends the game on the next click", () => {
+  const clock = fakeClock();
+  const engine = new GameEngine(
+    { ...ONES, mode: "timeAttack", timeLimitMinutes: 1 },
+    clock.now,
+  );
+  clock.advance(60_000);
+  const events = engine.interact(1, 0);
+  assert.equal(events[0]?.type, "gameOver");
+  assert.equal(engine.getResult()?.outcome, "timeUp");
+  assert.equal(engine.getCell(1, 0), 1);
+});
+
+Deno.test("move steps the player, counts the move and can be undone", () => {
+  const engine = new GameEngine(ONES);
+  assert.deepEqual(engine.move(0, 1), [
+    { type: "moved", from: { i: 0, j: 0 }, to: { i: 0, j: 1 } },
+  ]);
+  assert.equal(engine.getMoveCount(), 1);
+  assert.deepEqual(engine.getStartPos(), { i: 0, j: 0 });
+
+  assert.equal(engine.undo()[0]?.type, "undone");
+  assert.deepEqual(engine.getPlayerPos(), { i: 0, j: 0 });
+  assert.equal(engine.redo()[0]?.type, "redone");
+  assert.deepEqual(engine.getPlayerPos(), { i: 0, j: 1 });
+});
+
+Deno.test("moveTo places a fresh game's player, then counts cells crossed", () => {
+  const engine = new GameEngine(ONES);
+  assert.deepEqual(engine.moveTo(100, 200), [
+    { type: "placed", from: { i: 0, j: 0 }, to: { i: 100, j: 200 } },
+  ]);
+  assert.deepEqual(engine.getStartPos(), { i: 100, j: 200 });
+  assert.equal(engine.getMoveCount(), 0);
+
+  engine.moveTo(103, 198);
+  assert.deepEqual(engine.getPlayerPos(), { i: 103, j: 198 });
+  assert.deepEqual(engine.getStartPos(), { i: 100, j: 200 });
+  assert.equal(engine.getMoveCount(), 3);
+  assert.equal(engine.canUndo(), false);
+  assert.deepEqual(engine.moveTo(103, 198), []);
+});
+
+Deno.test("step limit ends the game when the steps run out", () => {
+  const engine = new GameEngine({ ...ONES, mode: "stepLimit", stepLimit: 2 });
+  engine.move(1, 0);
+  engine.move(1, 0);
+  assert.equal(engine.getStepsLeft(), 0);
+  const events = engine.move(1, 0);
+  assert.equal(events[0]?.type, "gameOver");
+  assert.equal(engine.getResult()?.outcome, "outOfSteps");
+  assert.deepEqual(engine.getPlayerPos(), { i: 2, j: 0 });
+});
+
+Deno.test("a read-only engine ignores every play operation", () => {
+  const engine = new GameEngine(ONES);
+  engine.setReadOnly(true);
+  assert.deepEqual(engine.interact(1, 0), []);
+  assert.deepEqual(engine.move(1, 0), []);
+  assert.deepEqual(engine.moveTo(5, 5), []);
+  assert.deepEqual(engine.selectSlot(1), []);
+  assert.equal(engine.getCell(1, 0), 1);
+});
+
+Deno.test("emptied cells count down, then grow back", () => {
+  const clock = fakeClock();
+  const engine = new GameEngine({ ...ONES, regenerationMinutes: 1 }, clock.now);
+  engine.interact(1, 0);
+  assert.deepEqual(engine.getEmptiedCells(), [{ i: 1, j: 0 }]);
+  assert.equal(engine.getRegenerationTimeLeft(1, 0), 60_000);
+  assert.equal(engine.getCell(1, 0), undefined);
+
+  clock.advance(60_000);
+  assert.equal(engine.getRegenerationTimeLeft(1, 0), null);
+  assert.equal(engine.getCell(1, 0), 1);
+  assert.deepEqual(engine.getEmptiedCells(), [{ i: 1, j: 0 }]);
+});
+
+Deno.test("undoing a move gives it back, redoing counts it again", () => {
+  const engine = new GameEngine(ONES);
+  engine.move(1, 1);
+  engine.move(0, 1);
+  assert.equal(engine.getMoveCount(), 2);
+  engine.undo();
+  assert.equal(engine.getMoveCount(), 1);
+  engine.redo();
+  assert.equal(engine.getMoveCount(), 2);
+});
+
+Deno.test("a real-world move makes earlier moves impossible to undo", () => {
+  const engine = new GameEngine(ONES);
+  engine.interact(1, 0);
+  engine.move(0, 1);
+  engine.moveTo(50, 50);
+  assert.deepEqual(engine.getPlayerPos(), { i: 50, j: 50 });
+
+  // Only the pickup is left to undo; the player stays where they are
+  assert.equal(engine.undo()[0]?.type, "undone");
+  assert.deepEqual(engine.getPlayerPos(), { i: 50, j: 50 });
+  assert.equal(engine.getCell(1, 0), 1);
+  assert.equal(engine.canUndo(), false);
+});
+
+Deno.test("step limit: undoing a move gives the step back", () => {
+  const engine = new GameEngine({ ...ONES, mode: "stepLimit", stepLimit: 2 });
+  engine.move(1, 0);
+  engine.move(1, 0);
+  assert.equal(engine.getStepsLeft(), 0);
+  engine.undo();
+  assert.equal(engine.getStepsLeft(), 1);
+  engine.undo();
+  assert.equal(engine.getStepsLeft(), 2);
+  assert.deepEqual(engine.getPlayerPos(), { i: 0, j: 0 });
+});
+
+Deno.test("step limit: redoing a move spends its step again", () => {
+  const engine = new GameEngine({ ...ONES, mode: "stepLimit", stepLimit: 1 });
+  engine.move(1, 0);
+  engine.undo();
+  assert.equal(engine.getStepsLeft(), 1);
+  assert.equal(engine.redo()[0]?.type, "redone");
+  assert.equal(engine.getStepsLeft(), 0);
+  assert.deepEqual(engine.getPlayerPos(), { i: 1, j: 0 });
+});
+
+Deno.test("step limit: redoing a move with no steps left ends the game", () => {
+  const engine = new GameEngine({ ...ONES, mode: "stepLimit", stepLimit: 1 });
+  engine.move(1, 0);
+  engine.undo();
+  // e.g. a save whose steps were spent after the move was undone
+  engine.restore({ ...engine.toMemento(), moveCount: 1 });
+
+  assert.equal(engine.redo()[0]?.type, "gameOver");
+  assert.equal(engine.getResult()?.outcome, "outOfSteps");
+  assert.deepEqual(engine.getPlayerPos(), { i: 0, j: 0 });
+});
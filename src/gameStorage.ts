@@ -0,0 +1,242 @@
+// === Game Storage: where saves are kept ===
+// Saves go through one small asynchronous key-value interface, so the game
+// can keep them in IndexedDB (the default: large quota, atomic batches),
+// in localStorage (where IndexedDB is unavailable, e.g. some private
+// modes) or in memory (?storage=memory, and for tests). Each backend also
+// reports keys other tabs changed, which spectating tabs follow.
+
+export type StorageKind = "indexedDB" | "localStorage" | "memory";
+
+export interface StorageEstimate {
+  // Bytes used, and available in total if the browser says
+  usage: number;
+  quota: number | null;
+}
+
+export interface GameStorage {
+  readonly kind: StorageKind;
+  get(key: string): Promise<string | null>;
+  // Keys starting with the prefix, in no particular order
+  keys(prefix: string): Promise<string[]>;
+  // Applies every change or none: a string is written, null deletes.
+  // Rejects if storage is full.
+  write(changes: Map<string, string | null>): Promise<void>;
+  estimate(): Promise<StorageEstimate>;
+  // Calls back with each key another tab changed
+  watch(callback: (key: string) => void): void;
+}
+
+export function isStorageKind(value: unknown): value is StorageKind {
+  return value === "indexedDB" || value === "localStorage" ||
+    value === "memory";
+}
+
+// IndexedDB unless another kind is asked for or it can't be opened
+export async function openGameStorage(
+  preferred: StorageKind | null = null,
+): Promise<GameStorage> {
+  if (preferred === "memory") return new MemoryGameStorage();
+  if (preferred !== "localStorage" && globalThis.indexedDB) {
+    try {
+      return await IndexedDbGameStorage.open();
+    } catch (error) {
+      console.warn("IndexedDB unavailable, saving to localStorage:", error);
+    }
+  }
+  return new LocalGameStorage();
+}
+
+// Browsers keep about 5 MB of localStorage per site, counted in UTF-16
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export class LocalGameStorage implements GameStorage {
+  readonly kind = "localStorage";
+
+  constructor(private readonly storage: Storage = localStorage) {}
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.storage.getItem(key));
+  }
+
+  keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (let index = 0; index < this.storage.length; index++) {
+      const key = this.storage.key(index);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return Promise.resolve(keys);
+  }
+
+  // localStorage has no transactions: on failure, the keys written so far
+  // are put back
+  write(changes: Map<string, string | null>): Promise<void> {
+    const previous = new Map<string, string | null>();
+    try {
+      for (const [key, value] of changes) {
+        previous.set(key, this.storage.getItem(key));
+        if (value === null) {
+          this.storage.removeItem(key);
+        } else {
+          this.storage.setItem(key, value);
+        }
+      }
+      return Promise.resolve();
+    } catch (error) {
+      for (const [key, value] of previous) {
+        if (value === null) {
+          this.storage.removeItem(key);
+        } else {
+          this.storage.setItem(key, value);
+        }
+      }
+      return Promise.reject(error);
+    }
+  }
+
+  estimate(): Promise<StorageEstimate> {
+    let usage = 0;
+    for (let index = 0; index < this.storage.length; index++) {
+      const key = this.storage.key(index)!;
+      usage += 2 * (key.length + (this.storage.getItem(key)?.length ?? 0));
+    }
+    return Promise.resolve({ usage, quota: LOCAL_STORAGE_QUOTA });
+  }
+
+  watch(callback: (key: string) => void): void {
+    globalThis.addEventListener("storage", (event) => {
+      if (event.key !== null) callback(event.key);
+    });
+  }
+}
+
+const DB_NAME = "coinCollector";
+const STORE_NAME = "saves";
+
+// One object store of string values. Other tabs hear about writes on a
+// BroadcastChannel, since IndexedDB has no storage events.
+export class IndexedDbGameStorage implements GameStorage {
+  readonly kind = "indexedDB";
+  private readonly channel = new BroadcastChannel(DB_NAME);
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static open(name: string = DB_NAME): Promise<IndexedDbGameStorage> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () =>
+        resolve(new IndexedDbGameStorage(request.result));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.request("readonly", (store) => store.get(key))
+      .then((value) => typeof value === "string" ? value : null);
+  }
+
+  keys(prefix: string): Promise<string[]> {
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+    return this.request("readonly", (store) => store.getAllKeys(range))
+      .then((keys) => keys.map(String));
+  }
+
+  write(changes: Map<string, string | null>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      for (const [key, value] of changes) {
+        if (value === null) {
+          store.delete(key);
+        } else {
+          store.put(value, key);
+        }
+      }
+      transaction.oncomplete = () => {
+        this.channel.postMessage([...changes.keys()]);
+        resolve();
+      };
+      // Aborts when the quota is exceeded
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async estimate(): Promise<StorageEstimate> {
+    const estimate = await navigator.storage?.estimate?.() ?? {};
+    return { usage: estimate.usage ?? 0, quota: estimate.quota ?? null };
+  }
+
+  watch(callback: (key: string) => void): void {
+    this.channel.addEventListener("message", (event: MessageEvent) => {
+      if (Array.isArray(event.data)) event.data.forEach(callback);
+    });
+  }
+
+  private request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const store = this.db.transaction(STORE_NAME, mode).objectStore(
+        STORE_NAME,
+      );
+      const request = run(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Kept only while the page is open; also lets tests run without a browser
+export class MemoryGameStorage implements GameStorage {
+  readonly kind = "memory";
+  private readonly entries = new Map<string, string>();
+
+  constructor(private readonly quota: number | null = null) {}
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.entries.get(key) ?? null);
+  }
+
+  keys(prefix: string): Promise<string[]> {
+    return Promise.resolve(
+      [...this.entries.keys()].filter((key) => key.startsWith(prefix)),
+    );
+  }
+
+  // Rejects, like a full browser store, if a quota was given and the
+  // changes would exceed it
+  write(changes: Map<string, string | null>): Promise<void> {
+    const next = new Map(this.entries);
+    for (const [key, value] of changes) {
+      if (value === null) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    }
+    if (this.quota !== null && usageOf(next) > this.quota) {
+      return Promise.reject(
+        new DOMException("Storage quota exceeded", "QuotaExceededError"),
+      );
+    }
+    this.entries.clear();
+    next.forEach((value, key) => this.entries.set(key, value));
+    return Promise.resolve();
+  }
+
+  estimate(): Promise<StorageEstimate> {
+    return Promise.resolve({ usage: usageOf(this.entries), quota: this.quota });
+  }
+
+  // Nothing else shares it
+  watch(): void {}
+}
+
+function usageOf(entries: Map<string, string>): number {
+  let usage = 0;
+  entries.forEach((value, key) => usage += 2 * (key.length + value.length));
+  return usage;
+}
@@ -0,0 +1,141 @@
+// === GPS Filter: turns noisy position fixes into steady cell changes ===
+// Pipeline: drop fixes with poor accuracy, smooth the rest with a simple
+// Kalman filter, then only change cell once the smoothed position is
+// clearly past the edge of the current one (hysteresis), so standing on a
+// boundary doesn't flicker between two cells.
+import type { GridPos } from "./gameEngine.ts";
+
+export interface GpsFix {
+  lat: number;
+  lng: number;
+  // Radius of 68% confidence, in meters (GeolocationCoordinates.accuracy)
+  accuracy: number;
+  // ms since epoch
+  time: number;
+}
+
+export type SignalQuality = "good" | "fair" | "poor" | "unusable";
+
+export interface GpsFilterOptions {
+  // Fixes less accurate than this (meters) are ignored
+  maxAccuracy: number;
+  // Expected walking speed (m/s); how quickly the estimate may drift
+  // between fixes
+  speed: number;
+  // How far past a cell edge (degrees) the position must be to move
+  margin: number;
+}
+
+const DEFAULT_OPTIONS: GpsFilterOptions = {
+  maxAccuracy: 50,
+  speed: 3,
+  margin: 0.00002,
+};
+
+// Accuracy (meters) at or below which each quality level applies
+const QUALITY_LEVELS: [SignalQuality, number][] = [
+  ["good", 10],
+  ["fair", 25],
+  ["poor", Infinity],
+];
+
+export function signalQuality(
+  accuracy: number,
+  maxAccuracy: number = DEFAULT_OPTIONS.maxAccuracy,
+): SignalQuality {
+  if (!(accuracy <= maxAccuracy)) return "unusable";
+  return QUALITY_LEVELS.find(([, limit]) => accuracy <= limit)![0];
+}
+
+export class GpsFilter {
+  private readonly options: GpsFilterOptions;
+  private lat = 0;
+  private lng = 0;
+  private time = 0;
+  // Variance of the estimate in meters², or null before the first fix
+  private variance: number | null = null;
+  private cell: GridPos | null = null;
+  private lastAccuracy: number | null = null;
+
+  constructor(
+    private readonly cellDegrees: number,
+    options: Partial<GpsFilterOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Feed one fix; returns the new cell when the player should move there,
+  // otherwise null
+  update(fix: GpsFix): GridPos | null {
+    this.lastAccuracy = fix.accuracy;
+    if (this.getQuality() === "unusable") return null;
+
+    this.smooth(fix);
+    const next = this.nextCell();
+    if (
+      this.cell && next.i === this.cell.i && next.j === this.cell.j
+    ) {
+      return null;
+    }
+    this.cell = next;
+    return next;
+  }
+
+  getQuality(): SignalQuality | null {
+    if (this.lastAccuracy === null) return null;
+    return signalQuality(this.lastAccuracy, this.options.maxAccuracy);
+  }
+
+  getAccuracy(): number | null {
+    return this.lastAccuracy;
+  }
+
+  getPosition(): { lat: number; lng: number } | null {
+    return this.variance === null ? null : { lat: this.lat, lng: this.lng };
+  }
+
+  reset(): void {
+    this.variance = null;
+    this.cell = null;
+    this.lastAccuracy = null;
+  }
+
+  private smooth(fix: GpsFix): void {
+    const measurementVariance = Math.max(fix.accuracy, 1) ** 2;
+    if (this.variance === null) {
+      this.lat = fix.lat;
+      this.lng = fix.lng;
+      this.time = fix.time;
+      this.variance = measurementVariance;
+      return;
+    }
+
+    // The longer since the last fix, the further the player may have moved
+    const elapsed = Math.max(fix.time - this.time, 0) / 1000;
+    this.variance += elapsed * this.options.speed ** 2;
+    this.time = fix.time;
+
+    const gain = this.variance / (this.variance + measurementVariance);
+    this.lat += gain * (fix.lat - this.lat);
+    this.lng += gain * (fix.lng - this.lng);
+    this.variance *= 1 - gain;
+  }
+
+  // Cell for the smoothed position, holding on to the current cell along
+  // each axis until the position is a margin beyond its edge
+  private nextCell(): GridPos {
+    const i = this.axisCell(this.lat, this.cell?.i);
+    const j = this.axisCell(this.lng, this.cell?.j);
+    return { i, j };
+  }
+
+  private axisCell(value: number, current: number | undefined): number {
+    const cell = Math.floor(value / this.cellDegrees);
+    if (current === undefined || cell === current) return cell;
+
+    const low = current * this.cellDegrees;
+    const high = low + this.cellDegrees;
+    const past = value < low ? low - value : value - high;
+    return past >= this.options.margin ? cell : current;
+  }
+}
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { TILE_DEGREES } from "./gameEngine.ts";
+import { GpsFilter, type GpsFix, signalQuality } from "./gpsFilter.ts";
+
+// One fix a second, starting at time 0
+function fixes(
+  points: { lat: number; lng: number; accuracy?: number }[],
+): GpsFix[] {
+  return points.map((point, index) => ({
+    accuracy: 5,
+    ...point,
+    time: index * 1000,
+  }));
+}
+
+// Cell centres, so float rounding never puts a fix in a neighbour
+const center = (cell: number) => (cell + 0.5) * TILE_DEGREES;
+
+Deno.test("signal quality follows the accuracy thresholds", () => {
+  assert.equal(signalQuality(3), "good");
+  assert.equal(signalQuality(10), "good");
+  assert.equal(signalQuality(10.5), "fair");
+  assert.equal(signalQuality(25), "fair");
+  assert.equal(signalQuality(26), "poor");
+  assert.equal(signalQuality(50), "poor");
+  assert.equal(signalQuality(51), "unusable");
+  assert.equal(signalQuality(NaN), "unusable");
+  assert.equal(signalQuality(25, 20), "unusable");
+});
+
+Deno.test("drops fixes worse than maxAccuracy", () => {
+  const filter = new GpsFilter(TILE_DEGREES, { maxAccuracy: 30 });
+  const [bad, good, farBad] = fixes([
+    { lat: center(3), lng: center(3), accuracy: 31 },
+    { lat: center(5), lng: center(7), accuracy: 30 },
+    { lat: center(40), lng: center(40), accuracy: 200 },
+  ]);
+
+  assert.equal(filter.update(bad), null);
+  assert.equal(filter.getQuality(), "unusable");
+  assert.equal(filter.getPosition(), null);
+
+  assert.deepEqual(filter.update(good), { i: 5, j: 7 });
+  assert.equal(filter.getQuality(), "poor");
+
+  assert.equal(filter.update(farBad), null);
+  assert.equal(filter.getAccuracy(), 200);
+  assert.deepEqual(filter.getPosition(), { lat: center(5), lng: center(7) });
+});
+
+Deno.test("Kalman smoothing converges on a steady position", () => {
+  const filter = new GpsFilter(TILE_DEGREES);
+  const truth = center(20);
+  const noise = 0.4 * TILE_DEGREES;
+  const stream = fixes(
+    Array.from({ length: 40 }, (_, index) => ({
+      lat: truth + (index % 2 === 0 ? noise : -noise),
+      lng: truth - (index % 2 === 0 ? noise : -noise),
+      accuracy: 10,
+    })),
+  );
+
+  let error = Infinity;
+  for (const fix of stream) {
+    filter.update(fix);
+    const { lat, lng } = filter.getPosition()!;
+    error = Math.max(Math.abs(lat - truth), Math.abs(lng - truth));
+  }
+  // Alternating ±noise averages out to well under the raw jitter
+  assert.ok(error < noise / 3, `error ${error} vs noise ${noise}`);
+});
+
+Deno.test("Kalman smoothing follows the player to a new position", () => {
+  const filter = new GpsFilter(TILE_DEGREES);
+  const stream = fixes([
+    { lat: center(0), lng: center(0) },
+    ...Array.from({ length: 30 }, () => ({ lat: center(3), lng: center(0) })),
+  ]);
+
+  const errors = stream.map((fix) => {
+    filter.update(fix);
+    return Math.abs(filter.getPosition()!.lat - center(3));
+  });
+  for (let index = 2; index < errors.length; index++) {
+    assert.ok(errors[index] <= errors[index - 1]);
+  }
+  assert.ok(errors[errors.length - 1] < 1e-3 * TILE_DEGREES);
+});
+
+Deno.test("jitter on a cell edge stays put until it passes the margin", () => {
+  // Fast enough that each fix is taken almost as is
+  const margin = 0.2 * TILE_DEGREES;
+  const filter = new GpsFilter(TILE_DEGREES, { speed: 1000, margin });
+  const edge = 6 * TILE_DEGREES;
+  const lng = center(2);
+  const [start, ...rest] = fixes([
+    { lat: center(5), lng },
+    { lat: edge + 0.05 * TILE_DEGREES, lng },
+    { lat: edge - 0.05 * TILE_DEGREES, lng },
+    { lat: edge + 0.15 * TILE_DEGREES, lng },
+    { lat: edge + 0.3 * TILE_DEGREES, lng },
+    { lat: edge - 0.05 * TILE_DEGREES, lng },
+    { lat: edge - 0.15 * TILE_DEGREES, lng },
+    { lat: edge - 0.3 * TILE_DEGREES, lng },
+  ]);
+
+  assert.deepEqual(filter.update(start), { i: 5, j: 2 });
+  assert.deepEqual(rest.map((fix) => filter.update(fix)), [
+    null,
+    null,
+    null,
+    { i: 6, j: 2 },
+    null,
+    null,
+    { i: 5, j: 2 },
+  ]);
+});
+
+Deno.test("reset forgets the position and the cell", () => {
+  const filter = new GpsFilter(TILE_DEGREES);
+  const [first, again] = fixes([
+    { lat: center(1), lng: center(1) },
+    { lat: center(1), lng: center(1) },
+  ]);
+  filter.update(first);
+  filter.reset();
+  assert.equal(filter.getPosition(), null);
+  assert.equal(filter.getQuality(), null);
+  assert.deepEqual(filter.update(again), { i: 1, j: 1 });
+});
@@ -0,0 +1,426 @@
+// === Grid Renderer: draws the cells in view, incrementally ===
+// Each render diffs the wanted cell range against what is already drawn:
+// only cells entering or leaving the range are added or removed, and
+// labels of cells that stay are updated in place. Two renderers share
+// that interface: DOM elements per cell, or one canvas for the whole grid.
+// Cells the player hasn't explored are drawn fogged, with their contents
+// hidden.
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+import { cellKey } from "./gameEngine.ts";
+import { t } from "./i18n.ts";
+import { type Palette, PALETTES, tokenColors } from "./palettes.ts";
+
+// Inclusive range of grid rows (i) and columns (j)
+export interface CellRange {
+  minI: number;
+  maxI: number;
+  minJ: number;
+  maxJ: number;
+}
+
+// What a renderer needs from the game
+export interface GridSource {
+  cellBounds(i: number, j: number): leaflet.LatLngBounds;
+  cellAt(latLng: leaflet.LatLng): { i: number; j: number };
+  getCell(i: number, j: number): number | undefined;
+  // Time left on an emptied cell that is regenerating, e.g. "12:34"
+  getCountdown(i: number, j: number): string | null;
+  // Cells the player can interact with, which keyboard focus moves between
+  isInRange(i: number, j: number): boolean;
+  isExplored(i: number, j: number): boolean;
+  getPlayerPos(): { i: number; j: number };
+  onCellClick(i: number, j: number): void;
+  // Long press (contextmenu, which Leaflet also fires for a touch hold) or
+  // right click
+  onCellHold(i: number, j: number): void;
+}
+
+export interface GridRenderer {
+  // Show exactly the cells in range, reusing the ones already drawn
+  render(range: CellRange): void;
+  // Update one cell after its contents changed (no-op if not drawn)
+  refreshCell(i: number, j: number): void;
+  setPalette(palette: Palette): void;
+}
+
+export function inRange(range: CellRange, i: number, j: number): boolean {
+  return i >= range.minI && i <= range.maxI && j >= range.minJ &&
+    j <= range.maxJ;
+}
+
+// What a cell's label shows: its token, a regeneration countdown, its
+// coordinates when empty, or nothing while it's fogged
+interface CellLabel {
+  text: string;
+  kind: "token" | "recharging" | "coords" | "fog";
+}
+
+function cellLabel(source: GridSource, i: number, j: number): CellLabel {
+  if (!source.isExplored(i, j)) return { text: "", kind: "fog" };
+  const value = source.getCell(i, j);
+  if (value !== undefined) return { text: String(value), kind: "token" };
+  const countdown = source.getCountdown(i, j);
+  if (countdown !== null) return { text: `⏳${countdown}`, kind: "recharging" };
+  return { text: `${i},${j}`, kind: "coords" };
+}
+
+// What a cell holds, in words, for screen readers and the cell list
+export function describeCell(
+  source: GridSource,
+  i: number,
+  j: number,
+): string {
+  const cell = { i: String(i), j: String(j) };
+  if (!source.isExplored(i, j)) return t("cell.unexplored", cell);
+  const value = source.getCell(i, j);
+  if (value !== undefined) return t("cell.token", { ...cell, value });
+  const time = source.getCountdown(i, j);
+  if (time !== null) return t("cell.recharging", { ...cell, time });
+  return t("cell.empty", cell);
+}
+
+// Arrow keys move focus between cells in reach; north is up
+const FOCUS_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [1, 0],
+  ArrowDown: [-1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+interface DrawnCell {
+  i: number;
+  j: number;
+  rect: leaflet.Rectangle;
+  marker: leaflet.Marker;
+  // The marker's element, focusable while the cell is in reach
+  element: HTMLElement;
+  label: HTMLElement;
+  // Label last shown, so unchanged cells aren't touched
+  shown: CellLabel | null;
+}
+
+// flyweight pattern: every label shares one icon definition and one set of
+// CSS classes; only the text and class name differ per cell
+const LABEL_ICON = leaflet.divIcon({
+  html: "<span></span>",
+  className: "cell-label",
+  iconSize: [30, 20],
+});
+
+// One rectangle and one HTML marker per cell. Labels of cells in reach are
+// focusable buttons: Tab lands on the player's cell, arrow keys move
+// between cells, Enter or Space interacts and H shows the cell's history.
+export class DomGridRenderer implements GridRenderer {
+  private readonly cells = new Map<string, DrawnCell>();
+  private readonly layer: leaflet.LayerGroup;
+  private palette: Palette = PALETTES[0];
+
+  constructor(map: leaflet.Map, private readonly source: GridSource) {
+    this.layer = leaflet.layerGroup().addTo(map);
+  }
+
+  render(range: CellRange): void {
+    for (const [key, cell] of this.cells) {
+      if (!inRange(range, cell.i, cell.j)) {
+        this.layer.removeLayer(cell.rect);
+        this.layer.removeLayer(cell.marker);
+        this.cells.delete(key);
+      }
+    }
+
+    for (let i = range.minI; i <= range.maxI; i++) {
+      for (let j = range.minJ; j <= range.maxJ; j++) {
+        const cell = this.cells.get(cellKey(i, j));
+        if (cell) {
+          this.updateLabel(cell);
+          this.updateFocusable(cell);
+        } else {
+          this.addCell(i, j);
+        }
+      }
+    }
+  }
+
+  refreshCell(i: number, j: number): void {
+    const cell = this.cells.get(cellKey(i, j));
+    if (cell) this.updateLabel(cell);
+  }
+
+  setPalette(palette: Palette): void {
+    this.palette = palette;
+    for (const cell of this.cells.values()) {
+      cell.shown = null;
+      this.updateLabel(cell);
+    }
+  }
+
+  private rectStyle(fogged: boolean): leaflet.PathOptions {
+    return {
+      color: this.palette.gridStroke,
+      weight: this.palette.gridWeight,
+      fillColor: fogged ? this.palette.fog : this.palette.gridFill,
+      fillOpacity: fogged
+        ? this.palette.fogOpacity
+        : this.palette.gridFillOpacity,
+    };
+  }
+
+  private addCell(i: number, j: number): void {
+    const bounds = this.source.cellBounds(i, j);
+    const rect = leaflet.rectangle(bounds, {
+      ...this.rectStyle(!this.source.isExplored(i, j)),
+      interactive: true,
+    }).addTo(this.layer);
+
+    // try to interact with tokens
+    rect.on("click", () => this.source.onCellClick(i, j));
+    rect.on("contextmenu", (event: leaflet.LeafletMouseEvent) => {
+      event.originalEvent.preventDefault();
+      this.source.onCellHold(i, j);
+    });
+
+    const marker = leaflet.marker(bounds.getCenter(), {
+      icon: LABEL_ICON,
+      interactive: false,
+    }).addTo(this.layer);
+
+    const element = marker.getElement()!;
+    element.setAttribute("role", "button");
+    element.addEventListener("keydown", (event) => this.handleKey(cell, event));
+
+    const cell: DrawnCell = {
+      i,
+      j,
+      rect,
+      marker,
+      element,
+      label: element.firstElementChild as HTMLElement,
+      shown: null,
+    };
+    this.cells.set(cellKey(i, j), cell);
+    this.updateLabel(cell);
+    this.updateFocusable(cell);
+  }
+
+  // Only the player's cell is in the Tab order; the rest of the cells in
+  // reach are reached with arrow keys
+  private updateFocusable(cell: DrawnCell): void {
+    const player = this.source.getPlayerPos();
+    const tabIndex = player.i === cell.i && player.j === cell.j
+      ? "0"
+      : this.source.isInRange(cell.i, cell.j)
+      ? "-1"
+      : null;
+    if (cell.element.getAttribute("tabindex") === tabIndex) return;
+    if (tabIndex === null) {
+      cell.element.removeAttribute("tabindex");
+    } else {
+      cell.element.setAttribute("tabindex", tabIndex);
+    }
+  }
+
+  private handleKey(cell: DrawnCell, event: KeyboardEvent): void {
+    const step = FOCUS_STEPS[event.key];
+    if (step) {
+      const next = this.cells.get(cellKey(cell.i + step[0], cell.j + step[1]));
+      if (next && this.source.isInRange(next.i, next.j)) next.element.focus();
+    } else if (event.key === "Enter" || event.key === " ") {
+      this.source.onCellClick(cell.i, cell.j);
+    } else if (event.key === "h" || event.key === "H") {
+      this.source.onCellHold(cell.i, cell.j);
+    } else {
+      return;
+    }
+    // Handled here, so the map doesn't pan and the player doesn't move
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  private updateLabel(cell: DrawnCell): void {
+    const label = cellLabel(this.source, cell.i, cell.j);
+    if (cell.shown?.text === label.text && cell.shown.kind === label.kind) {
+      return;
+    }
+    // New palette, or the cell was revealed (or is fogged again in another
+    // slot)
+    if (!cell.shown || (cell.shown.kind === "fog") !== (label.kind === "fog")) {
+      cell.rect.setStyle(this.rectStyle(label.kind === "fog"));
+    }
+    cell.shown = label;
+    cell.label.textContent = label.text;
+    cell.label.className = `cell-${label.kind}`;
+    const colors = this.labelColors(label);
+    cell.label.style.background = colors.background;
+    cell.label.style.color = colors.text;
+    cell.element.setAttribute(
+      "aria-label",
+      describeCell(this.source, cell.i, cell.j),
+    );
+  }
+
+  private labelColors(label: CellLabel) {
+    if (label.kind === "token") {
+      return tokenColors(this.palette, Number(label.text));
+    }
+    const text = label.kind === "recharging"
+      ? this.palette.recharging
+      : this.palette.coords;
+    return { background: "", text };
+  }
+}
+
+// Draws every cell and label onto a single canvas, so hundreds of cells
+// cost one element instead of two each. Clicks are hit-tested against the
+// grid from the map's click position. There is nothing to focus, so
+// keyboard and screen reader users use the cell list instead.
+export class CanvasGridRenderer extends leaflet.Layer implements GridRenderer {
+  private readonly canvas = document.createElement("canvas");
+  private range: CellRange | null = null;
+  private frameId: number | null = null;
+  private palette: Palette = PALETTES[0];
+
+  constructor(map: leaflet.Map, private readonly source: GridSource) {
+    super();
+    // The map itself receives clicks and drags; the canvas is just paint
+    this.canvas.style.pointerEvents = "none";
+    this.addTo(map);
+  }
+
+  override onAdd(map: leaflet.Map): this {
+    map.getPanes().overlayPane.appendChild(this.canvas);
+    map.on("moveend resize", this.reset, this);
+    map.on("click", this.handleClick, this);
+    map.on("contextmenu", this.handleHold, this);
+    this.reset();
+    return this;
+  }
+
+  override onRemove(map: leaflet.Map): this {
+    this.canvas.remove();
+    map.off("moveend resize", this.reset, this);
+    map.off("click", this.handleClick, this);
+    map.off("contextmenu", this.handleHold, this);
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    return this;
+  }
+
+  render(range: CellRange): void {
+    this.range = range;
+    this.scheduleDraw();
+  }
+
+  refreshCell(i: number, j: number): void {
+    if (this.range && inRange(this.range, i, j)) this.scheduleDraw();
+  }
+
+  setPalette(palette: Palette): void {
+    this.palette = palette;
+    this.scheduleDraw();
+  }
+
+  // Line the canvas up with the viewport after the map pans or resizes
+  private reset(): void {
+    const size = this._map.getSize();
+    const ratio = globalThis.devicePixelRatio || 1;
+    this.canvas.width = size.x * ratio;
+    this.canvas.height = size.y * ratio;
+    this.canvas.style.width = `${size.x}px`;
+    this.canvas.style.height = `${size.y}px`;
+    leaflet.DomUtil.setPosition(
+      this.canvas,
+      this._map.containerPointToLayerPoint([0, 0]),
+    );
+    this.scheduleDraw();
+  }
+
+  private handleClick(event: leaflet.LeafletMouseEvent): void {
+    const { i, j } = this.source.cellAt(event.latlng);
+    if (this.range && inRange(this.range, i, j)) {
+      this.source.onCellClick(i, j);
+    }
+  }
+
+  private handleHold(event: leaflet.LeafletMouseEvent): void {
+    const { i, j } = this.source.cellAt(event.latlng);
+    if (this.range && inRange(this.range, i, j)) {
+      event.originalEvent.preventDefault();
+      this.source.onCellHold(i, j);
+    }
+  }
+
+  // Several changes in one frame (e.g. a move plus a pickup) draw once
+  private scheduleDraw(): void {
+    if (this.frameId !== null || !this._map) return;
+    this.frameId = requestAnimationFrame(() => {
+      this.frameId = null;
+      this.draw();
+    });
+  }
+
+  private draw(): void {
+    const context = this.canvas.getContext("2d")!;
+    const ratio = globalThis.devicePixelRatio || 1;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    if (!this.range) return;
+
+    context.font = "12px monospace";
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    for (let i = this.range.minI; i <= this.range.maxI; i++) {
+      for (let j = this.range.minJ; j <= this.range.maxJ; j++) {
+        this.drawCell(context, i, j);
+      }
+    }
+  }
+
+  // Same look as the DOM renderer's rectangles and labels
+  private drawCell(
+    context: CanvasRenderingContext2D,
+    i: number,
+    j: number,
+  ): void {
+    const bounds = this.source.cellBounds(i, j);
+    const corner = this._map.latLngToContainerPoint(bounds.getNorthWest());
+    const opposite = this._map.latLngToContainerPoint(bounds.getSouthEast());
+    const x = Math.min(corner.x, opposite.x);
+    const y = Math.min(corner.y, opposite.y);
+    const width = Math.abs(opposite.x - corner.x);
+    const height = Math.abs(opposite.y - corner.y);
+
+    const palette = this.palette;
+    const label = cellLabel(this.source, i, j);
+    const fogged = label.kind === "fog";
+    context.globalAlpha = fogged ? palette.fogOpacity : palette.gridFillOpacity;
+    context.fillStyle = fogged ? palette.fog : palette.gridFill;
+    context.fillRect(x, y, width, height);
+    context.globalAlpha = 1;
+    context.strokeStyle = palette.gridStroke;
+    context.lineWidth = palette.gridWeight;
+    context.strokeRect(x, y, width, height);
+    if (fogged) return;
+
+    const centerX = x + width / 2;
+    const centerY = y + height / 2;
+    if (label.kind !== "token") {
+      context.font = "12px monospace";
+      context.fillStyle = label.kind === "recharging"
+        ? palette.recharging
+        : palette.coords;
+      context.fillText(label.text, centerX, centerY);
+      return;
+    }
+
+    context.font = "bold 12px monospace";
+    const boxWidth = context.measureText(label.text).width + 8;
+    const colors = tokenColors(palette, Number(label.text));
+    context.fillStyle = colors.background;
+    context.beginPath();
+    context.roundRect(centerX - boxWidth / 2, centerY - 9, boxWidth, 18, 4);
+    context.fill();
+    context.fillStyle = colors.text;
+    context.fillText(label.text, centerX, centerY);
+  }
+}
@@ -0,0 +1,129 @@
+// === i18n: message catalogs, locale choice, plurals and numbers ===
+// UI text is looked up by key in the catalog of the page's locale. The
+// locale is settled once per page load (?lang=, then the player's choice,
+// then the browser's languages), so names defined at module level can be
+// translated where they're declared; changing language reloads the page.
+import { en, type MessageKey } from "./locales/en.ts";
+import { de } from "./locales/de.ts";
+
+export type { MessageKey };
+export type Locale = "en" | "de";
+
+// Plural messages pick a form by the "count" parameter, using the
+// locale's plural rules; "other" is required, the rest are optional
+export type PluralMessage =
+  & Partial<Record<Intl.LDMLPluralRule, string>>
+  & { other: string };
+export type Message = string | PluralMessage;
+export type Catalog = Record<MessageKey, Message>;
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  de: "Deutsch",
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, de };
+const LOCALE_KEY = "coinCollectorLocale";
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && Object.hasOwn(CATALOGS, value);
+}
+
+// The first supported language among the URL's, the saved choice and the
+// browser's (e.g. "de-AT" → "de"), or English
+export function detectLocale(
+  candidates: (string | null | undefined)[],
+): Locale {
+  for (const candidate of candidates) {
+    const language = candidate?.toLowerCase().split("-")[0];
+    if (isLocale(language)) return language;
+  }
+  return "en";
+}
+
+// The player's choice, or null to follow the browser
+export function loadLocaleChoice(storage?: Storage): Locale | null {
+  try {
+    const saved = (storage ?? localStorage).getItem(LOCALE_KEY);
+    return isLocale(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+// Takes effect on the next page load
+export function saveLocaleChoice(
+  choice: Locale | null,
+  storage?: Storage,
+): void {
+  try {
+    if (choice === null) {
+      (storage ?? localStorage).removeItem(LOCALE_KEY);
+    } else {
+      (storage ?? localStorage).setItem(LOCALE_KEY, choice);
+    }
+  } catch (error) {
+    console.error("Failed to save language:", error);
+  }
+}
+
+function urlLocale(): string | null {
+  try {
+    return new URLSearchParams(globalThis.location.search).get("lang");
+  } catch {
+    // No page location, e.g. in a script
+    return null;
+  }
+}
+
+let locale: Locale = detectLocale([
+  urlLocale(),
+  loadLocaleChoice(),
+  ...(globalThis.navigator?.languages ?? []),
+]);
+let numberFormat = new Intl.NumberFormat(locale);
+let pluralRules = new Intl.PluralRules(locale);
+
+export function getLocale(): Locale {
+  return locale;
+}
+
+// For tools and scripts; the page only changes language by reloading
+export function setLocale(next: Locale): void {
+  locale = next;
+  numberFormat = new Intl.NumberFormat(locale);
+  pluralRules = new Intl.PluralRules(locale);
+}
+
+// Looks up a message and fills in its {placeholders}. Numbers are
+// formatted for the locale (1,024 / 1.024); pass strings for values that
+// must stay as they are, like coordinates and seeds.
+export function t(
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  const message = CATALOGS[locale][key] ?? en[key];
+  const text = typeof message === "string"
+    ? message
+    : message[pluralRules.select(Number(params.count ?? 0))] ??
+      message.other;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? numberFormat.format(value) : value;
+  });
+}
+
+export function formatNumber(
+  value: number,
+  options?: Intl.NumberFormatOptions,
+): string {
+  return options
+    ? new Intl.NumberFormat(locale, options).format(value)
+    : numberFormat.format(value);
+}
+
+// Date and time of a timestamp (ms since epoch), e.g. for the journal
+export function formatDateTime(time: number): string {
+  return new Date(time).toLocaleString(locale);
+}
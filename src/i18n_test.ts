@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import {
+  detectLocale,
+  formatNumber,
+  getLocale,
+  isLocale,
+  loadLocaleChoice,
+  type Message,
+  saveLocaleChoice,
+  setLocale,
+  t,
+} from "./i18n.ts";
+import { en } from "./locales/en.ts";
+import { de } from "./locales/de.ts";
+
+// Runs a test in a locale, then goes back to English
+function inLocale(locale: "en" | "de", test: () => void): () => void {
+  return () => {
+    setLocale(locale);
+    try {
+      test();
+    } finally {
+      setLocale("en");
+    }
+  };
+}
+
+Deno.test(
+  "plural messages pick a form by count",
+  inLocale("en", () => {
+    const tooFar = (count: number) => t("cell.tooFar", { count });
+    assert.equal(tooFar(1), "Too far! Must be within 1 cell. 🚶‍♂️❌");
+    assert.equal(tooFar(3), "Too far! Must be within 3 cells. 🚶‍♂️❌");
+    assert.equal(tooFar(0), "Too far! Must be within 0 cells. 🚶‍♂️❌");
+    // No count reads as 0, which is plural in English
+    assert.match(t("cell.tooFar"), /\{count\} cells/);
+  }),
+);
+
+Deno.test(
+  "plurals follow the locale's rules",
+  inLocale("de", () => {
+    const left = (count: number) =>
+      t("hud.movesLeft", { game: "Klassisch", count });
+    assert.equal(left(1), "Klassisch (noch 1 Zug)");
+    assert.equal(left(2), "Klassisch (noch 2 Züge)");
+  }),
+);
+
+Deno.test(
+  "placeholders format numbers for the locale and keep strings",
+  inLocale("en", () => {
+    assert.equal(t("goal.make", { value: 1024 }), "Make 1,024");
+    assert.equal(t("hud.world", { seed: "1024" }), "World: 1024");
+    assert.equal(t("hud.game", { mode: "Quick" }), "Quick: {goal}");
+    assert.equal(formatNumber(1.5, { maximumFractionDigits: 0 }), "2");
+
+    setLocale("de");
+    assert.equal(getLocale(), "de");
+    assert.equal(t("goal.make", { value: 1024 }), "Erschaffe 1.024");
+  }),
+);
+
+Deno.test("the locale comes from the first supported candidate", () => {
+  assert.equal(detectLocale([null, "fr", "de-AT", "en"]), "de");
+  assert.equal(detectLocale(["EN-gb"]), "en");
+  assert.equal(detectLocale([undefined, "fr"]), "en");
+  assert.ok(isLocale("de"));
+  assert.ok(!isLocale("toString"));
+});
+
+Deno.test("the player's language choice is saved and cleared", () => {
+  sessionStorage.clear();
+  assert.equal(loadLocaleChoice(sessionStorage), null);
+  saveLocaleChoice("de", sessionStorage);
+  assert.equal(loadLocaleChoice(sessionStorage), "de");
+  saveLocaleChoice(null, sessionStorage);
+  assert.equal(loadLocaleChoice(sessionStorage), null);
+});
+
+Deno.test("every translation has the English message's placeholders", () => {
+  const placeholders = (message: Message) =>
+    [
+      ...new Set(
+        (typeof message === "string" ? [message] : Object.values(message))
+          .join(" ").match(/\{\w+\}/g),
+      ),
+    ].sort();
+  (Object.keys(en) as (keyof typeof en)[]).forEach((key) => {
+    assert.deepEqual(placeholders(de[key]), placeholders(en[key]), key);
+  });
+});
@@ -0,0 +1,176 @@
+// === Input Bindings: remappable keyboard and gamepad controls ===
+// Bindings are stored in localStorage so a remap sticks across games and
+// save slots.
+import { t } from "./i18n.ts";
+
+export type InputAction = "north" | "south" | "west" | "east" | "interact";
+export type InputDevice = "keyboard" | "gamepad";
+
+export const INPUT_ACTIONS: InputAction[] = [
+  "north",
+  "south",
+  "west",
+  "east",
+  "interact",
+];
+
+export const ACTION_NAMES: Record<InputAction, string> = {
+  north: t("action.north"),
+  south: t("action.south"),
+  west: t("action.west"),
+  east: t("action.east"),
+  interact: t("action.interact"),
+};
+
+// Keyboard bindings are KeyboardEvent.key values (lowercased letters);
+// gamepad bindings are button indices in the standard gamepad mapping
+export interface InputBindings {
+  keyboard: Record<InputAction, string[]>;
+  gamepad: Record<InputAction, number[]>;
+}
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: {
+    north: ["ArrowUp", "w"],
+    south: ["ArrowDown", "s"],
+    west: ["ArrowLeft", "a"],
+    east: ["ArrowRight", "d"],
+    interact: [" ", "e"],
+  },
+  gamepad: {
+    north: [12],
+    south: [13],
+    west: [14],
+    east: [15],
+    interact: [0],
+  },
+};
+
+const BINDINGS_KEY = "coinCollectorInputBindings";
+
+export function loadBindings(storage: Storage = localStorage): InputBindings {
+  try {
+    const saved = storage.getItem(BINDINGS_KEY);
+    if (!saved) return structuredClone(DEFAULT_BINDINGS);
+    const parsed = JSON.parse(saved) as Partial<InputBindings>;
+
+    // Fill in anything missing (e.g. actions added since the save)
+    const bindings = structuredClone(DEFAULT_BINDINGS);
+    INPUT_ACTIONS.forEach((action) => {
+      const keys = parsed.keyboard?.[action];
+      if (Array.isArray(keys) && keys.every((key) => typeof key === "string")) {
+        bindings.keyboard[action] = keys;
+      }
+      const buttons = parsed.gamepad?.[action];
+      if (Array.isArray(buttons) && buttons.every(Number.isInteger)) {
+        bindings.gamepad[action] = buttons;
+      }
+    });
+    return bindings;
+  } catch (error) {
+    console.error("Failed to load input bindings:", error);
+    return structuredClone(DEFAULT_BINDINGS);
+  }
+}
+
+export function saveBindings(
+  bindings: InputBindings,
+  storage: Storage = localStorage,
+): void {
+  try {
+    storage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error("Failed to save input bindings:", error);
+  }
+}
+
+// Bind a key or button to exactly one action, taking it away from any
+// other action that used it
+export function rebind<D extends InputDevice>(
+  bindings: InputBindings,
+  device: D,
+  action: InputAction,
+  input: InputBindings[D][InputAction][number],
+): void {
+  const deviceBindings = bindings[device] as Record<
+    InputAction,
+    (string | number)[]
+  >;
+  INPUT_ACTIONS.forEach((other) => {
+    deviceBindings[other] = deviceBindings[other].filter((bound) =>
+      bound !== input
+    );
+  });
+  deviceBindings[action] = [input];
+}
+
+// Returns the action bound to a key, if any
+export function actionForKey(
+  bindings: InputBindings,
+  key: string,
+): InputAction | undefined {
+  const normalized = normalizeKey(key);
+  return INPUT_ACTIONS.find((action) =>
+    bindings.keyboard[action].includes(normalized)
+  );
+}
+
+// Keys typed into form fields belong to the field, not the game
+export function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as Partial<HTMLElement> | null;
+  return ["INPUT", "SELECT", "TEXTAREA"].includes(element?.tagName ?? "") ||
+    element?.isContentEditable === true;
+}
+
+// Letters are bound case-insensitively so Shift or Caps Lock don't matter
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  " ": t("key.space"),
+};
+
+// Standard gamepad mapping names for the common buttons
+const BUTTON_LABELS: Record<number, string> = {
+  0: "A",
+  1: "B",
+  2: "X",
+  3: "Y",
+  12: t("gamepad.dpad", { arrow: "↑" }),
+  13: t("gamepad.dpad", { arrow: "↓" }),
+  14: t("gamepad.dpad", { arrow: "←" }),
+  15: t("gamepad.dpad", { arrow: "→" }),
+};
+
+export function inputLabel(device: InputDevice, input: string | number) {
+  if (device === "gamepad") {
+    return BUTTON_LABELS[input as number] ??
+      t("gamepad.button", { number: String(input) });
+  }
+  return KEY_LABELS[input as string] ?? (input as string).toUpperCase();
+}
+
+// Compact summary for the HUD, e.g. "N: ↑/W S: ↓/S W: ←/A E: →/D Use: Space/E"
+export function describeBindings(
+  bindings: InputBindings,
+  device: InputDevice,
+): string {
+  const short: Record<InputAction, string> = {
+    north: t("action.short.north"),
+    south: t("action.short.south"),
+    west: t("action.short.west"),
+    east: t("action.short.east"),
+    interact: t("action.short.interact"),
+  };
+  return INPUT_ACTIONS.map((action) => {
+    const inputs = (bindings[device][action] as (string | number)[]).map((
+      input,
+    ) => inputLabel(device, input));
+    return `${short[action]}: ${inputs.join("/") || "—"}`;
+  }).join(" ");
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import {
+  actionForKey,
+  DEFAULT_BINDINGS,
+  describeBindings,
+  type InputBindings,
+  isEditableTarget,
+  loadBindings,
+  rebind,
+  saveBindings,
+} from "./inputBindings.ts";
+
+const defaults = (): InputBindings => structuredClone(DEFAULT_BINDINGS);
+
+// A stand-in for the element a key event came from
+const target = (fields: Partial<HTMLElement>) =>
+  fields as unknown as EventTarget;
+
+Deno.test("keys map to their actions, letters in either case", () => {
+  const bindings = defaults();
+  assert.equal(actionForKey(bindings, "ArrowUp"), "north");
+  assert.equal(actionForKey(bindings, "a"), "west");
+  assert.equal(actionForKey(bindings, "D"), "east");
+  assert.equal(actionForKey(bindings, " "), "interact");
+  assert.equal(actionForKey(bindings, "q"), undefined);
+  assert.equal(actionForKey(bindings, "Enter"), undefined);
+});
+
+Deno.test("rebinding takes the key away from its old action", () => {
+  const bindings = defaults();
+  rebind(bindings, "keyboard", "north", "a");
+  assert.equal(actionForKey(bindings, "a"), "north");
+  assert.deepEqual(bindings.keyboard.north, ["a"]);
+  assert.deepEqual(bindings.keyboard.west, ["ArrowLeft"]);
+  assert.equal(actionForKey(bindings, "w"), undefined);
+
+  rebind(bindings, "gamepad", "interact", 12);
+  assert.deepEqual(bindings.gamepad.north, []);
+  assert.deepEqual(bindings.gamepad.interact, [12]);
+  assert.match(describeBindings(bindings, "gamepad"), /: —/);
+});
+
+Deno.test("form fields keep their keys", () => {
+  assert.ok(isEditableTarget(target({ tagName: "INPUT" })));
+  assert.ok(isEditableTarget(target({ tagName: "SELECT" })));
+  assert.ok(isEditableTarget(target({ tagName: "TEXTAREA" })));
+  assert.ok(
+    isEditableTarget(target({ tagName: "DIV", isContentEditable: true })),
+  );
+  assert.ok(!isEditableTarget(target({ tagName: "BUTTON" })));
+  assert.ok(!isEditableTarget(target({ tagName: "BODY" })));
+  assert.ok(!isEditableTarget(null));
+});
+
+Deno.test("saved bindings load back, with invalid entries left at default", () => {
+  sessionStorage.clear();
+  const bindings = defaults();
+  rebind(bindings, "keyboard", "interact", "f");
+  saveBindings(bindings, sessionStorage);
+  assert.deepEqual(loadBindings(sessionStorage), bindings);
+
+  sessionStorage.setItem(
+    "coinCollectorInputBindings",
+    JSON.stringify({ keyboard: { north: [1], south: ["k"] } }),
+  );
+  const loaded = loadBindings(sessionStorage);
+  assert.deepEqual(loaded.keyboard.north, DEFAULT_BINDINGS.keyboard.north);
+  assert.deepEqual(loaded.keyboard.south, ["k"]);
+  assert.deepEqual(loaded.gamepad, DEFAULT_BINDINGS.gamepad);
+
+  sessionStorage.setItem("coinCollectorInputBindings", "{");
+  assert.deepEqual(loadBindings(sessionStorage), DEFAULT_BINDINGS);
+  sessionStorage.clear();
+});
@@ -0,0 +1,312 @@
+// German
+import type { Catalog } from "../i18n.ts";
+
+export const de: Catalog = {
+  // Movement controllers
+  "controller.buttons": "Tasten",
+  "controller.keyboard": "Tastatur",
+  "controller.gamepad": "Gamepad",
+  "controller.gps": "GPS",
+  "controller.replay": "Wiedergabe",
+  "controller.switchTo": "Wechseln zu {mode}",
+  "controller.switched": "Zur Steuerung {mode} gewechselt",
+
+  // GPS and track replay
+  "gps.notSupported":
+    "Dieser Browser unterstützt keine Standortbestimmung. Zurück zur Tastensteuerung.",
+  "gps.searching": "Suche…",
+  "gps.signal": "{quality} (±{meters} m)",
+  "gps.quality.good": "📶 Gut",
+  "gps.quality.fair": "📶 Mittel",
+  "gps.quality.poor": "📶 Schwach",
+  "gps.quality.unusable": "⚠️ Zu schwach, wird ignoriert",
+  "gps.error.denied":
+    "Standortfehler: Zugriff auf den Standort verweigert. Zurück zur Tastensteuerung.",
+  "gps.error.unavailable":
+    "Standortfehler: Standort nicht verfügbar. Zurück zur Tastensteuerung.",
+  "gps.error.timeout":
+    "Standortfehler: Zeitüberschreitung bei der Standortabfrage. Zurück zur Tastensteuerung.",
+  "gps.error.unknown":
+    "Standortfehler: Unbekannter Fehler. Zurück zur Tastensteuerung.",
+  "replay.finished":
+    "Wiedergabe der Strecke beendet. Zurück zur Tastensteuerung.",
+  "track.loadFailed": "Strecke {url} konnte nicht geladen werden: {error}",
+  "track.readFailed": "Strecke {file} konnte nicht gelesen werden: {error}",
+  "track.record": "⏺ Strecke aufzeichnen",
+  "track.stopRecording": "⏹ Aufzeichnung beenden",
+  "track.nothingRecorded": "Es wurden keine GPS-Positionen aufgezeichnet.",
+  "track.speed": "Tempo",
+
+  // Input bindings
+  "action.north": "Nach N",
+  "action.south": "Nach S",
+  "action.west": "Nach W",
+  "action.east": "Nach O",
+  "action.interact": "Eigenes Feld nutzen",
+  "action.short.north": "N",
+  "action.short.south": "S",
+  "action.short.west": "W",
+  "action.short.east": "O",
+  "action.short.interact": "Nutzen",
+  "key.space": "Leertaste",
+  "gamepad.button": "Taste {number}",
+  "gamepad.dpad": "Steuerkreuz {arrow}",
+  "gamepad.none": "Kein Gamepad verbunden – drücke eine Taste",
+  "bindings.title": "Steuerung",
+  "bindings.keyboard": "Tastatur",
+  "bindings.gamepad": "Gamepad",
+  "bindings.pressKey": "Taste drücken…",
+  "bindings.pressButton": "Gamepad-Taste drücken…",
+  "bindings.reset": "Standard wiederherstellen",
+
+  // Toolbar
+  "button.north": "N",
+  "button.south": "S",
+  "button.west": "W",
+  "button.east": "O",
+  "button.undo": "Rückgängig (Strg+Z)",
+  "button.redo": "Wiederholen (Strg+Y)",
+  "button.cellList": "Felder in Reichweite auflisten",
+  "button.explore": "Erkundetes Gebiet zeigen",
+  "button.backToPlay": "Zurück zum Spiel",
+  "button.controls": "🎛️ Steuerung",
+  "button.settings": "⚙️ Modus",
+  "button.newGame": "🔄 Neues Spiel",
+  "button.save": "💾 Speichern",
+  "button.load": "📂 Laden",
+  "button.export": "⬇️ Exportieren",
+  "button.import": "⬆️ Importieren",
+  "button.share": "🔗 Teilen",
+  "button.slots": "🗂️ Spielstände",
+  "button.stats": "📊 Statistik",
+  "button.journal": "📜 Tagebuch",
+  "label.map": "Karte",
+  "label.colours": "Farben",
+  "label.language": "Sprache",
+  "language.browser": "Browser-Standard",
+
+  // Basemaps and palettes
+  "tiles.osm": "OpenStreetMap",
+  "tiles.local": "Lokale Kacheln",
+  "tiles.none": "Keine Karte",
+  "tiles.custom": "Eigene Kacheln",
+  "palette.default": "Standard",
+  "palette.highContrast": "Hoher Kontrast",
+  "palette.colorBlind": "Farbenblind-freundlich",
+
+  // HUD
+  "hud.holding": "In der Hand: {token}",
+  "hud.pos": "Pos.: {pos}",
+  "hud.mode": "Steuerung: {mode}",
+  "hud.gps": "GPS: {signal}",
+  "hud.tilesUnavailable": "Karte: Kacheln nicht verfügbar",
+  "hud.slot": "Spielstand: {slot}",
+  "hud.world": "Welt: {seed}",
+  "hud.game": "{mode}: {goal}",
+  "hud.over": "{game} (vorbei)",
+  "hud.timeLeft": "{game} (noch {time})",
+  "hud.movesLeft": {
+    one: "{game} (noch {count} Zug)",
+    other: "{game} (noch {count} Züge)",
+  },
+
+  // Game modes and goals
+  "gameMode.classic": "Klassisch",
+  "gameMode.quick": "Schnell",
+  "gameMode.timeAttack": "Zeitrennen",
+  "gameMode.stepLimit": "Zuglimit",
+  "goal.make": "Erschaffe {value}",
+  "goal.timeAttack": "Höchster Token in {minutes} Min.",
+  "goal.stepLimit": {
+    one: "Erschaffe {value} in {count} Zug",
+    other: "Erschaffe {value} in {count} Zügen",
+  },
+
+  // Cells and the inventory
+  "cell.token": "Feld {i}, {j}: Token {value}",
+  "cell.recharging": "Feld {i}, {j}: leer, füllt sich in {time}",
+  "cell.empty": "Feld {i}, {j}: leer",
+  "cell.unexplored": "Feld {i}, {j}: unerforscht",
+  "cell.tooFar": {
+    one: "Zu weit! Höchstens {count} Feld entfernt. 🚶‍♂️❌",
+    other: "Zu weit! Höchstens {count} Felder entfernt. 🚶‍♂️❌",
+  },
+  "cellList.title": "Felder in Reichweite",
+  "cellList.entry": "{cell} ({offset})",
+  "offset.north": "{count} nach Norden",
+  "offset.south": "{count} nach Süden",
+  "offset.east": "{count} nach Osten",
+  "offset.west": "{count} nach Westen",
+  "offset.here": "hier",
+  "inventory.slot": "Fach {number} (Taste {number})",
+  "inventory.merge": "In Fach {number} verschmelzen",
+
+  // Activity journal
+  "journal.title": "Tagebuch",
+  "journal.empty": "Noch nichts zu sehen.",
+  "journal.category.move": "Züge",
+  "journal.category.pickup": "Aufgehoben",
+  "journal.category.merge": "Verschmolzen",
+  "journal.category.swap": "Getauscht",
+  "journal.category.drop": "Abgelegt",
+  "journal.category.mode": "Steuerungswechsel",
+  "journal.category.gps": "GPS",
+  "journal.category.save": "Speichern",
+  "journal.moved": "Nach {pos} gezogen",
+  "journal.pickedUp": "{value} bei {pos} aufgehoben",
+  "journal.merged": "Bei {pos} zu {value} verschmolzen",
+  "journal.swapped": "Bei {pos} {left} gegen {held} getauscht",
+  "journal.dropped": "{value} bei {pos} abgelegt",
+  "journal.slotMerged": "Fächer {from} und {to} zu {value} verschmolzen",
+  "journal.undid": "Rückgängig: {action}",
+  "journal.redid": "Wiederholt: {action}",
+  "journal.saved": "In Spielstand „{slot}“ gespeichert",
+  "journal.saveFailed": "Speichern fehlgeschlagen",
+  "journal.reloaded": "Gespeichertes Spiel neu geladen",
+  "journal.exported": "Spielstand-Datei exportiert",
+  "journal.imported": "Spielstand-Datei {file} importiert",
+  "journal.linkLoaded": "Geteilten Spielstand-Link geladen",
+  "journal.newGame": "Neues Spiel „{mode}“ gestartet",
+  "journal.conflict": "Neueren Stand aus einem anderen Tab geladen",
+  "cellHistory.title": "Feld {pos}",
+  "cellHistory.empty": "Hier ist noch nichts passiert.",
+  "cellHistory.taken": "Von hier genommen: {values}",
+  "cellHistory.left": "Hier abgelegt: {values}",
+  "cellHistory.nothing": "nichts",
+
+  // Saving and loading
+  "save.failed":
+    "Spiel konnte nicht gespeichert werden. Der Speicher ist eventuell voll.",
+  "save.failedUsage":
+    "Spiel konnte nicht gespeichert werden. Speicher: {usage}.",
+  "save.full":
+    "Spiel konnte nicht gespeichert werden: Der Speicher ist voll ({usage}). Lösche einen Spielstand, um Platz zu schaffen.",
+  "save.conflict":
+    "Dieses Spiel wurde in einem anderen Tab gespeichert. Der neuere Stand wurde geladen.",
+  "load.failed":
+    "Gespeichertes Spiel konnte nicht geladen werden. Die Daten sind eventuell beschädigt.",
+  "load.invalidTitle": "Laden fehlgeschlagen: {source}",
+  "load.invalidFields": "Ungültige Felder:\n{errors}",
+  "source.savedGame": "gespeichertes Spiel",
+  "source.saveFile": "Spielstand-Datei {file}",
+  "source.saveLink": "geteilter Spielstand-Link",
+  "share.copied": "Spielstand-Link in die Zwischenablage kopiert! 🔗",
+  "share.prompt": "Diesen Spielstand-Link kopieren:",
+  "share.failed":
+    "In diesem Browser kann kein Spielstand-Link erstellt werden.",
+  "link.failed": "Der geteilte Spielstand-Link konnte nicht geladen werden.",
+  "link.confirm":
+    "Geteilten Spielstand laden? Dein aktuelles Spiel wird ersetzt.",
+  "link.confirmButton": "Laden",
+  "link.configIgnored":
+    "Die Spieleinstellungen dieses Links gelten nicht für deinen gespeicherten Spielstand. Starte ein neues Spiel, um mit ihnen zu spielen.",
+  "newGame.confirm":
+    "Neues Spiel in Spielstand „{slot}“ beginnen? Der gesamte Fortschritt darin wird gelöscht.",
+  "newGame.confirmButton": "Neues Spiel",
+  "newGame.started":
+    "Neues Spiel „{mode}“ gestartet! {goal}. Ein neues Abenteuer beginnt! 🌟",
+
+  // Save slots
+  "slots.title": "Spielstände",
+  "slots.neverSaved": "nie gespeichert",
+  "slots.details": "{updated} | Pos.: {pos} | Bester: {best}",
+  "slots.play": "Spielen",
+  "slots.rename": "Umbenennen",
+  "slots.duplicate": "Kopieren",
+  "slots.delete": "Löschen",
+  "slots.renamePrompt": "Spielstand umbenennen:",
+  "slots.copyPrompt": "Name der Kopie:",
+  "slots.copyName": "{name} (Kopie)",
+  "slots.deleteConfirm":
+    "Spielstand „{name}“ löschen? Das kann nicht rückgängig gemacht werden.",
+  "slots.deleteOnly": "Der einzige Spielstand kann nicht gelöscht werden",
+  "slots.new": "➕ Neuer Spielstand",
+  "slots.newPrompt": "Name des neuen Spielstands:",
+  "slots.defaultName": "Spieler {number}",
+
+  // Where saves are kept
+  "storage.indexedDB": "der Datenbank dieses Browsers",
+  "storage.localStorage": "dem lokalen Speicher dieses Browsers",
+  "storage.memory": "dem Arbeitsspeicher (geht beim Schließen verloren)",
+  "storage.location": "Gespeichert in {storage}: {usage}",
+  "storage.used": "{used} belegt",
+  "storage.usedOfQuota": "{used} von {quota} belegt",
+  "storage.nearlyFull":
+    "Der Speicher ist fast voll ({usage}). Lösche einen Spielstand, um Platz zu schaffen.",
+
+  // Other tabs
+  "spectator.banner":
+    "👀 Dieses Spiel wird in einem anderen Tab gespielt. Du schaust zu.",
+  "spectator.playHere": "Hier spielen",
+  "spectator.blocked":
+    "Dieses Spiel ist in einem anderen Tab geöffnet. Drücke zuerst „Hier spielen“.",
+
+  // Stats and achievements
+  "stats.title": "Statistik",
+  "stats.cellsVisited": "Besuchte Felder",
+  "stats.cellsExplored": "Erkundete Felder",
+  "stats.moves": "Züge",
+  "stats.walked": "Mit GPS gelaufen",
+  "stats.km": "{km} km",
+  "stats.merges": "Verschmelzungen je Token",
+  "stats.highest": "Höchster Token",
+  "stats.playTime": "Spielzeit",
+  "stats.noneYet": "noch keine",
+  "stats.achievements": "Erfolge",
+  "stats.unlockedAt": "Freigeschaltet am {date}",
+  "achievement.unlocked": "🏆 Erfolg freigeschaltet: {name}",
+  "achievement.firstMerge.name": "Handwerker",
+  "achievement.firstMerge.description": "Verschmilz zwei Tokens",
+  "achievement.token64.name": "Vierundsechzig",
+  "achievement.token64.description": "Erschaffe eine 64",
+  "achievement.token256.name": "Meister",
+  "achievement.token256.description": "Erschaffe eine 256",
+  "achievement.visit100.name": "Entdecker",
+  "achievement.visit100.description": "Besuche 100 Felder",
+  "achievement.visit1000.name": "Kartograf",
+  "achievement.visit1000.description": "Besuche 1.000 Felder",
+  "achievement.walk1km.name": "Ein kleiner Spaziergang",
+  "achievement.walk1km.description": "Laufe 1 km mit GPS",
+  "achievement.walk10km.name": "Langstrecke",
+  "achievement.walk10km.description": "Laufe 10 km mit GPS",
+  "achievement.hour.name": "Ausdauernd",
+  "achievement.hour.description": "Spiele eine Stunde lang",
+
+  // Game settings
+  "settings.title": "Spielmodus",
+  "settings.mode": "Modus",
+  "settings.target": "Ziel-Token",
+  "settings.minutes": "Zeitlimit (Minuten)",
+  "settings.steps": "Zuglimit",
+  "settings.regen":
+    "Geleerte Felder füllen sich wieder nach (Minuten, leer für nie)",
+  "settings.seed": "Welt-Seed",
+  "settings.seedPlaceholder": "gemeinsame Welt",
+  "settings.seedRandom": "Zufälliger Seed",
+  "settings.seedShare": "Link zu dieser Welt kopieren",
+  "settings.origin": "Seltenheit wächst mit der Entfernung von",
+  "settings.origin.nullIsland": "Null Island",
+  "settings.origin.start": "deinem Startpunkt",
+  "settings.regions": "Spawn-Regionen (GeoJSON)",
+  "settings.regionsNone": "keine",
+  "settings.regionsFailed": "Regionen konnten nicht gelesen werden: {error}",
+  "settings.start": "Neues Spiel starten",
+  "settings.close": "Schließen",
+  "settings.worldCopied": "Welt-Link in die Zwischenablage kopiert! 🔗",
+  "settings.worldPrompt": "Diesen Welt-Link kopieren:",
+
+  // End of game
+  "outcome.won": "🎉 Gewonnen! 🎉",
+  "outcome.timeUp": "⏱️ Die Zeit ist um!",
+  "outcome.outOfSteps": "🚶 Keine Züge mehr!",
+  "summary.highest": "Höchster Token",
+  "summary.moves": "Züge",
+  "summary.time": "Spielzeit",
+  "summary.playAgain": "Nochmal spielen",
+  "summary.keepExploring": "Weiter erkunden",
+
+  // Dialogs and toasts
+  "dialog.ok": "OK",
+  "dialog.cancel": "Abbrechen",
+  "toast.dismiss": "Schließen",
+};
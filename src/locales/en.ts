@@ -0,0 +1,308 @@
+// English, the source catalog: every message key is defined here first,
+// and other languages must translate the same keys
+import type { Message } from "../i18n.ts";
+
+export const en = {
+  // Movement controllers
+  "controller.buttons": "Buttons",
+  "controller.keyboard": "Keyboard",
+  "controller.gamepad": "Gamepad",
+  "controller.gps": "GPS",
+  "controller.replay": "Replay",
+  "controller.switchTo": "Switch to {mode}",
+  "controller.switched": "Switched to {mode} movement",
+
+  // GPS and track replay
+  "gps.notSupported":
+    "Geolocation is not supported by this browser. Falling back to button controls.",
+  "gps.searching": "Searching…",
+  "gps.signal": "{quality} (±{meters} m)",
+  "gps.quality.good": "📶 Good",
+  "gps.quality.fair": "📶 Fair",
+  "gps.quality.poor": "📶 Poor",
+  "gps.quality.unusable": "⚠️ Too weak, ignoring",
+  "gps.error.denied":
+    "Geolocation error: Location access denied. Falling back to button controls.",
+  "gps.error.unavailable":
+    "Geolocation error: Location information unavailable. Falling back to button controls.",
+  "gps.error.timeout":
+    "Geolocation error: Location request timed out. Falling back to button controls.",
+  "gps.error.unknown":
+    "Geolocation error: Unknown error. Falling back to button controls.",
+  "replay.finished":
+    "Track replay finished. Switching back to button controls.",
+  "track.loadFailed": "Failed to load track {url}: {error}",
+  "track.readFailed": "Failed to read track {file}: {error}",
+  "track.record": "⏺ Record Track",
+  "track.stopRecording": "⏹ Stop Recording",
+  "track.nothingRecorded": "No GPS positions were recorded.",
+  "track.speed": "Speed",
+
+  // Input bindings
+  "action.north": "Move N",
+  "action.south": "Move S",
+  "action.west": "Move W",
+  "action.east": "Move E",
+  "action.interact": "Use own cell",
+  "action.short.north": "N",
+  "action.short.south": "S",
+  "action.short.west": "W",
+  "action.short.east": "E",
+  "action.short.interact": "Use",
+  "key.space": "Space",
+  "gamepad.button": "Button {number}",
+  "gamepad.dpad": "D-pad {arrow}",
+  "gamepad.none": "No gamepad connected — press a button",
+  "bindings.title": "Controls",
+  "bindings.keyboard": "Keyboard",
+  "bindings.gamepad": "Gamepad",
+  "bindings.pressKey": "Press a key…",
+  "bindings.pressButton": "Press a button…",
+  "bindings.reset": "Reset to defaults",
+
+  // Toolbar
+  "button.north": "N",
+  "button.south": "S",
+  "button.west": "W",
+  "button.east": "E",
+  "button.undo": "Undo (Ctrl+Z)",
+  "button.redo": "Redo (Ctrl+Y)",
+  "button.cellList": "List the cells in reach",
+  "button.explore": "Show the explored area",
+  "button.backToPlay": "Back to play",
+  "button.controls": "🎛️ Controls",
+  "button.settings": "⚙️ Mode",
+  "button.newGame": "🔄 New Game",
+  "button.save": "💾 Save",
+  "button.load": "📂 Load",
+  "button.export": "⬇️ Export",
+  "button.import": "⬆️ Import",
+  "button.share": "🔗 Share",
+  "button.slots": "🗂️ Slots",
+  "button.stats": "📊 Stats",
+  "button.journal": "📜 Journal",
+  "label.map": "Map",
+  "label.colours": "Colours",
+  "label.language": "Language",
+  "language.browser": "Browser default",
+
+  // Basemaps and palettes
+  "tiles.osm": "OpenStreetMap",
+  "tiles.local": "Local tiles",
+  "tiles.none": "No basemap",
+  "tiles.custom": "Custom tiles",
+  "palette.default": "Default",
+  "palette.highContrast": "High contrast",
+  "palette.colorBlind": "Colour-blind safe",
+
+  // HUD
+  "hud.holding": "Holding: {token}",
+  "hud.pos": "Pos: {pos}",
+  "hud.mode": "Mode: {mode}",
+  "hud.gps": "GPS: {signal}",
+  "hud.tilesUnavailable": "Map: tiles unavailable",
+  "hud.slot": "Slot: {slot}",
+  "hud.world": "World: {seed}",
+  "hud.game": "{mode}: {goal}",
+  "hud.over": "{game} (over)",
+  "hud.timeLeft": "{game} ({time} left)",
+  "hud.movesLeft": {
+    one: "{game} ({count} move left)",
+    other: "{game} ({count} moves left)",
+  },
+
+  // Game modes and goals
+  "gameMode.classic": "Classic",
+  "gameMode.quick": "Quick",
+  "gameMode.timeAttack": "Time Attack",
+  "gameMode.stepLimit": "Step Limit",
+  "goal.make": "Make {value}",
+  "goal.timeAttack": "Highest token in {minutes} min",
+  "goal.stepLimit": {
+    one: "Make {value} in {count} move",
+    other: "Make {value} in {count} moves",
+  },
+
+  // Cells and the inventory
+  "cell.token": "Cell {i}, {j}: token {value}",
+  "cell.recharging": "Cell {i}, {j}: empty, refills in {time}",
+  "cell.empty": "Cell {i}, {j}: empty",
+  "cell.unexplored": "Cell {i}, {j}: unexplored",
+  "cell.tooFar": {
+    one: "Too far! Must be within {count} cell. 🚶‍♂️❌",
+    other: "Too far! Must be within {count} cells. 🚶‍♂️❌",
+  },
+  "cellList.title": "Cells in reach",
+  "cellList.entry": "{cell} ({offset})",
+  "offset.north": "{count} north",
+  "offset.south": "{count} south",
+  "offset.east": "{count} east",
+  "offset.west": "{count} west",
+  "offset.here": "here",
+  "inventory.slot": "Slot {number} (key {number})",
+  "inventory.merge": "Merge into slot {number}",
+
+  // Activity journal
+  "journal.title": "Journal",
+  "journal.empty": "Nothing to show yet.",
+  "journal.category.move": "Moves",
+  "journal.category.pickup": "Pickups",
+  "journal.category.merge": "Merges",
+  "journal.category.swap": "Swaps",
+  "journal.category.drop": "Drops",
+  "journal.category.mode": "Mode switches",
+  "journal.category.gps": "GPS",
+  "journal.category.save": "Saves",
+  "journal.moved": "Moved to {pos}",
+  "journal.pickedUp": "Picked up {value} at {pos}",
+  "journal.merged": "Merged into {value} at {pos}",
+  "journal.swapped": "Swapped {left} for {held} at {pos}",
+  "journal.dropped": "Dropped {value} at {pos}",
+  "journal.slotMerged": "Merged slots {from} and {to} into {value}",
+  "journal.undid": "Undid: {action}",
+  "journal.redid": "Redid: {action}",
+  "journal.saved": 'Saved to slot "{slot}"',
+  "journal.saveFailed": "Failed to save game",
+  "journal.reloaded": "Reloaded the saved game",
+  "journal.exported": "Exported a save file",
+  "journal.imported": "Imported save file {file}",
+  "journal.linkLoaded": "Loaded a shared save link",
+  "journal.newGame": "Started a new {mode} game",
+  "journal.conflict": "Loaded newer progress saved in another tab",
+  "cellHistory.title": "Cell {pos}",
+  "cellHistory.empty": "Nothing has happened here yet.",
+  "cellHistory.taken": "Taken from here: {values}",
+  "cellHistory.left": "Left here: {values}",
+  "cellHistory.nothing": "nothing",
+
+  // Saving and loading
+  "save.failed": "Failed to save game. Storage might be full.",
+  "save.failedUsage": "Failed to save game. Storage: {usage}.",
+  "save.full":
+    "Failed to save game: storage is full ({usage}). Delete a save slot to make room.",
+  "save.conflict":
+    "This game was saved in another tab. Loaded the newer progress.",
+  "load.failed": "Failed to load saved game. Data might be corrupted.",
+  "load.invalidTitle": "Failed to load {source}",
+  "load.invalidFields": "Invalid fields:\n{errors}",
+  "source.savedGame": "saved game",
+  "source.saveFile": "save file {file}",
+  "source.saveLink": "shared save link",
+  "share.copied": "Save link copied to clipboard! 🔗",
+  "share.prompt": "Copy this save link:",
+  "share.failed": "Couldn't create a save link in this browser.",
+  "link.failed": "Couldn't load the shared save link.",
+  "link.confirm": "Load the shared save? This will replace your current game.",
+  "link.confirmButton": "Load",
+  "link.configIgnored":
+    "This link's game settings weren't applied to your saved game. Start a new game to play with them.",
+  "newGame.confirm":
+    'Start a new game in slot "{slot}"? This will erase all of its progress.',
+  "newGame.confirmButton": "New Game",
+  "newGame.started":
+    "New {mode} game started! {goal}. Fresh adventure begins! 🌟",
+
+  // Save slots
+  "slots.title": "Save Slots",
+  "slots.neverSaved": "never saved",
+  "slots.details": "{updated} | Pos: {pos} | Best: {best}",
+  "slots.play": "Play",
+  "slots.rename": "Rename",
+  "slots.duplicate": "Duplicate",
+  "slots.delete": "Delete",
+  "slots.renamePrompt": "Rename save slot:",
+  "slots.copyPrompt": "Name for the copy:",
+  "slots.copyName": "{name} (copy)",
+  "slots.deleteConfirm": 'Delete save slot "{name}"? This can\'t be undone.',
+  "slots.deleteOnly": "Can't delete the only save slot",
+  "slots.new": "➕ New Slot",
+  "slots.newPrompt": "Name for the new save slot:",
+  "slots.defaultName": "Player {number}",
+
+  // Where saves are kept
+  "storage.indexedDB": "this browser's database",
+  "storage.localStorage": "this browser's local storage",
+  "storage.memory": "memory only (lost when the page closes)",
+  "storage.location": "Saved in {storage}: {usage}",
+  "storage.used": "{used} used",
+  "storage.usedOfQuota": "{used} of {quota} used",
+  "storage.nearlyFull":
+    "Storage is nearly full ({usage}). Delete a save slot to make room.",
+
+  // Other tabs
+  "spectator.banner":
+    "👀 This game is being played in another tab. You're watching.",
+  "spectator.playHere": "Play here",
+  "spectator.blocked":
+    "This game is open in another tab. Press Play here first.",
+
+  // Stats and achievements
+  "stats.title": "Stats",
+  "stats.cellsVisited": "Cells visited",
+  "stats.cellsExplored": "Cells explored",
+  "stats.moves": "Moves",
+  "stats.walked": "Walked with GPS",
+  "stats.km": "{km} km",
+  "stats.merges": "Merges by token",
+  "stats.highest": "Highest token ever",
+  "stats.playTime": "Play time",
+  "stats.noneYet": "none yet",
+  "stats.achievements": "Achievements",
+  "stats.unlockedAt": "Unlocked {date}",
+  "achievement.unlocked": "🏆 Achievement unlocked: {name}",
+  "achievement.firstMerge.name": "Crafter",
+  "achievement.firstMerge.description": "Merge two tokens",
+  "achievement.token64.name": "Sixty-Four",
+  "achievement.token64.description": "Make a 64",
+  "achievement.token256.name": "Master Crafter",
+  "achievement.token256.description": "Make a 256",
+  "achievement.visit100.name": "Explorer",
+  "achievement.visit100.description": "Visit 100 cells",
+  "achievement.visit1000.name": "Cartographer",
+  "achievement.visit1000.description": "Visit 1,000 cells",
+  "achievement.walk1km.name": "Out for a Walk",
+  "achievement.walk1km.description": "Walk 1 km with GPS",
+  "achievement.walk10km.name": "Long Distance",
+  "achievement.walk10km.description": "Walk 10 km with GPS",
+  "achievement.hour.name": "Dedicated",
+  "achievement.hour.description": "Play for an hour",
+
+  // Game settings
+  "settings.title": "Game Mode",
+  "settings.mode": "Mode",
+  "settings.target": "Target token",
+  "settings.minutes": "Time limit (minutes)",
+  "settings.steps": "Move limit",
+  "settings.regen": "Emptied cells regrow after (minutes, blank for never)",
+  "settings.seed": "World seed",
+  "settings.seedPlaceholder": "shared world",
+  "settings.seedRandom": "Random seed",
+  "settings.seedShare": "Copy a link to this world",
+  "settings.origin": "Rarity grows with distance from",
+  "settings.origin.nullIsland": "Null Island",
+  "settings.origin.start": "Where you start",
+  "settings.regions": "Spawn regions (GeoJSON)",
+  "settings.regionsNone": "none",
+  "settings.regionsFailed": "Couldn't read regions: {error}",
+  "settings.start": "Start New Game",
+  "settings.close": "Close",
+  "settings.worldCopied": "World link copied to clipboard! 🔗",
+  "settings.worldPrompt": "Copy this world link:",
+
+  // End of game
+  "outcome.won": "🎉 You win! 🎉",
+  "outcome.timeUp": "⏱️ Time's up!",
+  "outcome.outOfSteps": "🚶 Out of moves!",
+  "summary.highest": "Highest token",
+  "summary.moves": "Moves",
+  "summary.time": "Time played",
+  "summary.playAgain": "Play Again",
+  "summary.keepExploring": "Keep Exploring",
+
+  // Dialogs and toasts
+  "dialog.ok": "OK",
+  "dialog.cancel": "Cancel",
+  "toast.dismiss": "Dismiss",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
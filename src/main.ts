@@ -1,12 +1,113 @@
 // @deno-types="npm:@types/leaflet"
 import leaflet from "leaflet";
-const visitedCells = new Set<string>();
 
 // Styles
 import "leaflet/dist/leaflet.css";
 import "./style.css";
 import "./_leafletWorkaround.ts";
-import luck from "./_luck.ts";
+import type { GameCommand } from "./commandHistory.ts";
+import {
+  cellKey,
+  cellsBetween,
+  GameEngine,
+  type GameEvent,
+  type GameResult,
+  TILE_DEGREES,
+} from "./gameEngine.ts";
+import {
+  configFromParams,
+  describeGoal,
+  type GameConfig,
+  isModeId,
+  MODE_NAMES,
+  PRESETS,
+  randomSeed,
+  sameUrlRules,
+} from "./gameConfig.ts";
+import { type ParseResult, parseSave } from "./saveFormat.ts";
+import { isSaveKey, SaveConflictError, SaveSlotManager } from "./saveSlots.ts";
+import {
+  isStorageKind,
+  LocalGameStorage,
+  openGameStorage,
+  type StorageKind,
+} from "./gameStorage.ts";
+import { type TabRole, TabSync } from "./tabSync.ts";
+import {
+  createSaveLink,
+  downloadJson,
+  exportSaveFile,
+  importSaveFile,
+  readSaveLink,
+} from "./saveTransfer.ts";
+import {
+  CanvasGridRenderer,
+  type CellRange,
+  describeCell,
+  DomGridRenderer,
+  type GridRenderer,
+  type GridSource,
+} from "./gridRenderer.ts";
+import { parseRegions, type SpawnRegion } from "./spawnTables.ts";
+import {
+  announce,
+  confirmDialog,
+  messageDialog,
+  promptDialog,
+  showToast,
+} from "./notifications.ts";
+import {
+  ActivityJournal,
+  JOURNAL_CATEGORIES,
+  type JournalCategory,
+  type JournalEntry,
+  parseJournal,
+} from "./activityJournal.ts";
+import { ExploredArea, parseExploredArea } from "./exploredArea.ts";
+import { ExplorationLayer } from "./explorationLayer.ts";
+import {
+  ACHIEVEMENTS,
+  CONTROLLER_NAMES,
+  type ControllerType,
+  distanceMeters,
+  parseStats,
+  StatsTracker,
+} from "./playerStats.ts";
+import { GpsFilter, type SignalQuality } from "./gpsFilter.ts";
+import {
+  formatDateTime,
+  formatNumber,
+  getLocale,
+  isLocale,
+  loadLocaleChoice,
+  LOCALE_NAMES,
+  saveLocaleChoice,
+  t,
+} from "./i18n.ts";
+import { loadPalette, PALETTES, savePalette } from "./palettes.ts";
+import {
+  loadTileSource,
+  saveTileSource,
+  TILE_SOURCES,
+  type TileSource,
+  tileSourceFromParams,
+} from "./tileSources.ts";
+import { parseTrack, type TrackPoint, TrackRecorder } from "./tracks.ts";
+import {
+  ACTION_NAMES,
+  actionForKey,
+  DEFAULT_BINDINGS,
+  describeBindings,
+  INPUT_ACTIONS,
+  type InputAction,
+  type InputDevice,
+  inputLabel,
+  isEditableTarget,
+  loadBindings,
+  normalizeKey,
+  rebind,
+  saveBindings,
+} from "./inputBindings.ts";
 
 // Set up the map
 const mapDiv = document.createElement("div");
@@ -17,13 +118,30 @@ document.body.appendChild(mapDiv);
 
 // === Facade Pattern: Movement Controller Interface ===
 interface MovementController {
+  // Which kind of controller this is; the UI names it with controllerLabel
+  readonly type: ControllerType;
   start(): void;
   stop(): void;
-  getMode(): string;
+  // Extra HUD text, e.g. the current key bindings
+  getControlsHint?(): string;
+}
+
+const CONTROLLER_ICONS: Record<ControllerType, string> = {
+  buttons: "🎮",
+  keyboard: "⌨️",
+  gamepad: "🕹️",
+  gps: "📍",
+  replay: "🎞️",
+};
+
+// e.g. "🎮 Buttons", in the page's language
+function controllerLabel(type: ControllerType): string {
+  return `${CONTROLLER_ICONS[type]} ${CONTROLLER_NAMES[type]}`;
 }
 
 // === Button Movement Controller (Facade Implementation) ===
 class ButtonMovementController implements MovementController {
+  readonly type = "buttons";
   private isActive: boolean = false;
 
   start(): void {
@@ -44,10 +162,6 @@ class ButtonMovementController implements MovementController {
     this.detachButtonListeners();
   }
 
-  getMode(): string {
-    return "🎮 Buttons";
-  }
-
   private attachButtonListeners(): void {
     document.getElementById("btn-n")!.addEventListener("click", this.moveNorth);
     document.getElementById("btn-s")!.addEventListener("click", this.moveSouth);
@@ -65,48 +179,96 @@ class ButtonMovementController implements MovementController {
   }
 
   private moveNorth = (): void => {
-    playerPos.i++;
-    this.updateGameAfterMove();
+    handleGameEvents(engine.move(1, 0));
   };
 
   private moveSouth = (): void => {
-    playerPos.i--;
-    this.updateGameAfterMove();
+    handleGameEvents(engine.move(-1, 0));
   };
 
   private moveWest = (): void => {
-    playerPos.j--;
-    this.updateGameAfterMove();
+    handleGameEvents(engine.move(0, -1));
   };
 
   private moveEast = (): void => {
-    playerPos.j++;
-    this.updateGameAfterMove();
+    handleGameEvents(engine.move(0, 1));
   };
+}
 
-  private updateGameAfterMove(): void {
-    const center = gridToLatLngBounds(playerPos.i, playerPos.j).getCenter();
-    map.panTo(center);
-    redrawGrid();
-    updateHud();
-    autoSave();
+// Shared lat/lng → grid path for controllers driven by real-world
+// coordinates (live GPS or a replayed track)
+abstract class LatLngMovementController implements MovementController {
+  abstract readonly type: ControllerType;
+  protected lastGridPos: { i: number; j: number } | null = null;
+
+  abstract start(): void;
+  abstract stop(): void;
+
+  protected handleLatLng(latitude: number, longitude: number): void {
+    // Convert real-world coordinates to grid coordinates
+    const gridPos = this.latLngToGrid(latitude, longitude);
+
+    // Check if movement exceeds threshold to prevent jitter
+    if (this.shouldUpdatePosition(gridPos)) {
+      this.lastGridPos = gridPos;
+      this.updatePlayerPosition(gridPos);
+    }
+  }
+
+  protected latLngToGrid(lat: number, lng: number): { i: number; j: number } {
+    // Convert latitude/longitude to grid coordinates
+    // Null Island (0,0) (origin point)
+    // Each grid cell is TILE_DEGREES (1e-4) in size
+    const i = Math.floor(lat / TILE_DEGREES);
+    const j = Math.floor(lng / TILE_DEGREES);
+    console.log(`Converted: lat=${lat}, lng=${lng} -> grid=(${i}, ${j})`);
+    return { i, j };
+  }
+  protected shouldUpdatePosition(
+    newGridPos: { i: number; j: number },
+  ): boolean {
+    // If no previous position, always update
+    if (!this.lastGridPos) return true;
+    // Calculate distance from last position
+    const deltaI = Math.abs(newGridPos.i - this.lastGridPos.i);
+    const deltaJ = Math.abs(newGridPos.j - this.lastGridPos.j);
+    // Only update if movement exceeds threshold (prevents jitter)
+    const shouldUpdate = deltaI >= 1 || deltaJ >= 1;
+    if (shouldUpdate) {
+      console.log(
+        `Movement detected: (${this.lastGridPos.i},${this.lastGridPos.j}) -> (${newGridPos.i},${newGridPos.j})`,
+      );
+    }
+    return shouldUpdate;
+  }
+
+  protected updatePlayerPosition(gridPos: { i: number; j: number }): void {
+    // Update player position and game state
+    handleGameEvents(engine.moveTo(gridPos.i, gridPos.j));
+    console.log(`Player moved to: (${gridPos.i}, ${gridPos.j})`);
   }
 }
 
 // Geolocation Movement Controller (Facade Implementation)
-class GeolocationMovementController implements MovementController {
+class GeolocationMovementController extends LatLngMovementController {
+  readonly type = "gps";
   private isActive: boolean = false;
   private watchId: number | null = null;
-  private lastGridPos: { i: number; j: number } | null = null;
+  // How far past a cell edge (degrees) the smoothed position must be
+  // before the player changes cell
   private readonly MOVEMENT_THRESHOLD = 0.00002;
+  private readonly filter = new GpsFilter(TILE_DEGREES, {
+    margin: this.MOVEMENT_THRESHOLD,
+  });
+  // Last smoothed position counted towards the distance walked
+  private walkedFrom: { lat: number; lng: number } | null = null;
+  private static readonly MIN_WALK_STEP_METERS = 5;
 
   start(): void {
     if (this.isActive) return;
 
     if (!navigator.geolocation) {
-      alert(
-        "Geolocation is not supported by this browser. Falling back to button controls.",
-      );
+      showToast(t("gps.notSupported"), "warning");
       switchToButtonMovement();
       return;
     }
@@ -135,94 +297,327 @@ class GeolocationMovementController implements MovementController {
     }
     console.log("Geolocation movement controller stopped");
     this.lastGridPos = null;
+    this.filter.reset();
+    this.walkedFrom = null;
   }
 
-  getMode(): string {
-    return "📍 GPS";
+  // Just the quality, for screen readers: the accuracy changes constantly
+  describeSignalQuality(): string {
+    const quality = this.filter.getQuality();
+    return quality === null ? t("gps.searching") : SIGNAL_LABELS[quality];
   }
 
-  private handlePositionUpdate(position: GeolocationPosition): void {
-    const { latitude, longitude } = position.coords;
-    console.log(`GPS Update: lat=${latitude}, lng=${longitude}`);
-
-    // Convert real-world coordinates to grid coordinates
-    const gridPos = this.latLngToGrid(latitude, longitude);
+  // e.g. "Good (±8 m)", or "Searching…" before the first fix
+  describeSignal(): string {
+    const quality = this.filter.getQuality();
+    const accuracy = this.filter.getAccuracy();
+    if (quality === null || accuracy === null) return t("gps.searching");
+    return t("gps.signal", {
+      quality: SIGNAL_LABELS[quality],
+      meters: Math.round(accuracy),
+    });
+  }
 
-    // Check if movement exceeds threshold to prevent jitter
-    if (this.shouldUpdatePosition(gridPos)) {
+  private handlePositionUpdate(position: GeolocationPosition): void {
+    const { latitude, longitude, accuracy } = position.coords;
+    console.log(
+      `GPS Update: lat=${latitude}, lng=${longitude}, accuracy=${accuracy}m`,
+    );
+    trackRecorder?.add(latitude, longitude, position.timestamp);
+
+    // Filtered instead of handleLatLng: poor fixes are dropped and the
+    // smoothed position must clear a margin before the cell changes
+    const gridPos = this.filter.update({
+      lat: latitude,
+      lng: longitude,
+      accuracy,
+      time: position.timestamp,
+    });
+    if (gridPos) {
       this.lastGridPos = gridPos;
       this.updatePlayerPosition(gridPos);
     }
+    this.recordWalk();
+    updateHud();
+  }
+
+  // Count distance between smoothed positions in steps big enough that
+  // standing still with a jittery fix doesn't add up
+  private recordWalk(): void {
+    const position = this.filter.getPosition();
+    if (!position || this.filter.getQuality() === "unusable") return;
+    if (!this.walkedFrom) {
+      this.walkedFrom = position;
+      return;
+    }
+    const meters = distanceMeters(this.walkedFrom, position);
+    if (meters < GeolocationMovementController.MIN_WALK_STEP_METERS) return;
+    statsTracker.recordWalk(meters);
+    this.walkedFrom = position;
   }
   private handlePositionError(error: GeolocationPositionError): void {
     console.error("Geolocation error:", error);
 
-    let errorMessage = "Geolocation error: ";
+    let errorMessage: string;
     switch (error.code) {
       case error.PERMISSION_DENIED:
-        errorMessage +=
-          "Location access denied. Falling back to button controls.";
+        errorMessage = t("gps.error.denied");
         break;
       case error.POSITION_UNAVAILABLE:
-        errorMessage +=
-          "Location information unavailable. Falling back to button controls.";
+        errorMessage = t("gps.error.unavailable");
         break;
       case error.TIMEOUT:
-        errorMessage +=
-          "Location request timed out. Falling back to button controls.";
+        errorMessage = t("gps.error.timeout");
         break;
       default:
-        errorMessage += "Unknown error. Falling back to button controls.";
+        errorMessage = t("gps.error.unknown");
         break;
     }
-    alert(errorMessage);
+    showToast(errorMessage, "error");
+    journal.add("gps", errorMessage);
     switchToButtonMovement();
   }
-  private latLngToGrid(lat: number, lng: number): { i: number; j: number } {
-    // Convert latitude/longitude to grid coordinates
-    // Null Island (0,0) (origin point)
-    // Each grid cell is TILE_DEGREES (1e-4) in size
-    const i = Math.floor(lat / TILE_DEGREES);
-    const j = Math.floor(lng / TILE_DEGREES);
-    console.log(`Converted: lat=${lat}, lng=${lng} -> grid=(${i}, ${j})`);
-    return { i, j };
+}
+
+const SIGNAL_LABELS: Record<SignalQuality, string> = {
+  good: t("gps.quality.good"),
+  fair: t("gps.quality.fair"),
+  poor: t("gps.quality.poor"),
+  unusable: t("gps.quality.unusable"),
+};
+
+// Track Replay Movement Controller (Facade Implementation)
+// Walks a recorded GPX/GeoJSON track through the same lat/lng → grid path
+// as live GPS, so GPS play can be tested without going outside
+class TrackReplayMovementController extends LatLngMovementController {
+  readonly type = "replay";
+  private isActive: boolean = false;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private nextIndex = 0;
+  // Used between points without timestamps, and to cap long pauses
+  private static readonly UNTIMED_STEP_MS = 1000;
+  private static readonly MAX_STEP_MS = 60000;
+
+  constructor(
+    private readonly track: TrackPoint[],
+    private speed: number,
+  ) {
+    super();
   }
-  private shouldUpdatePosition(newGridPos: { i: number; j: number }): boolean {
-    // If no previous position, always update
-    if (!this.lastGridPos) return true;
-    // Calculate distance from last position
-    const deltaI = Math.abs(newGridPos.i - this.lastGridPos.i);
-    const deltaJ = Math.abs(newGridPos.j - this.lastGridPos.j);
-    // Only update if movement exceeds threshold (prevents jitter)
-    const shouldUpdate = deltaI >= 1 || deltaJ >= 1;
-    if (shouldUpdate) {
-      console.log(
-        `Movement detected: (${this.lastGridPos.i},${this.lastGridPos.j}) -> (${newGridPos.i},${newGridPos.j})`,
-      );
+
+  start(): void {
+    if (this.isActive) return;
+    this.isActive = true;
+    console.log(
+      `Track replay controller started (${this.track.length} points, ${this.speed}x)`,
+    );
+    this.playNext();
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+    this.isActive = false;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
     }
-    return shouldUpdate;
+    console.log("Track replay controller stopped");
+    this.lastGridPos = null;
   }
 
-  private updatePlayerPosition(gridPos: { i: number; j: number }): void {
-    // Update player position
-    playerPos.i = gridPos.i;
-    playerPos.j = gridPos.j;
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
 
-    // Update game state
-    const center = gridToLatLngBounds(playerPos.i, playerPos.j).getCenter();
-    map.panTo(center);
-    redrawGrid();
-    updateHud();
-    autoSave();
-    console.log(`Player moved to: (${playerPos.i}, ${playerPos.j})`);
+  private playNext = (): void => {
+    const point = this.track[this.nextIndex];
+    console.log(
+      `Replay point ${
+        this.nextIndex + 1
+      }/${this.track.length}: lat=${point.lat}, lng=${point.lng}`,
+    );
+    this.handleLatLng(point.lat, point.lng);
+    this.nextIndex++;
+
+    if (this.nextIndex >= this.track.length) {
+      showToast(t("replay.finished"));
+      switchToButtonMovement();
+      return;
+    }
+
+    const next = this.track[this.nextIndex];
+    const gap = point.time !== null && next.time !== null
+      ? next.time - point.time
+      : TrackReplayMovementController.UNTIMED_STEP_MS;
+    const delay = Math.min(
+      Math.max(0, gap),
+      TrackReplayMovementController.MAX_STEP_MS,
+    ) / this.speed;
+    this.timerId = setTimeout(this.playNext, delay);
+  };
+}
+
+// Keyboard Movement Controller (Facade Implementation)
+// Arrows/WASD move, Space/E uses the player's own cell; remappable
+class KeyboardMovementController implements MovementController {
+  readonly type = "keyboard";
+  private isActive: boolean = false;
+
+  start(): void {
+    if (this.isActive) return;
+    this.isActive = true;
+    console.log("Keyboard movement controller started");
+    document.addEventListener("keydown", this.handleKeyDown);
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+    this.isActive = false;
+    console.log("Keyboard movement controller stopped");
+    document.removeEventListener("keydown", this.handleKeyDown);
+  }
+
+  getControlsHint(): string {
+    return describeBindings(inputBindings, "keyboard");
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    // Leave typing in forms and shortcuts like Ctrl+Z alone
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (isEditableTarget(event.target) || bindingCapture) return;
+
+    const action = actionForKey(inputBindings, event.key);
+    if (!action) return;
+    event.preventDefault();
+    performInputAction(action);
+  };
+}
+
+// Gamepad Movement Controller (Facade Implementation)
+// Polls the Gamepad API each frame; the D-pad (or left stick) moves and a
+// face button uses the player's own cell
+class GamepadMovementController implements MovementController {
+  readonly type = "gamepad";
+  private isActive: boolean = false;
+  private frameId: number | null = null;
+  private pressed = new Set<InputAction>();
+  private hadPad = false;
+  private static readonly STICK_THRESHOLD = 0.6;
+
+  start(): void {
+    if (this.isActive) return;
+    this.isActive = true;
+    console.log("Gamepad movement controller started");
+    this.frameId = requestAnimationFrame(this.poll);
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+    this.isActive = false;
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.pressed.clear();
+    console.log("Gamepad movement controller stopped");
+  }
+
+  getControlsHint(): string {
+    const connected = navigator.getGamepads().some((pad) => pad !== null);
+    return connected
+      ? describeBindings(inputBindings, "gamepad")
+      : t("gamepad.none");
+  }
+
+  // Each action fires once per press, when it goes from up to down
+  private poll = (): void => {
+    const pad = navigator.getGamepads().find((pad) => pad !== null);
+    const down = pad ? this.actionsDown(pad) : new Set<InputAction>();
+    down.forEach((action) => {
+      if (!this.pressed.has(action)) performInputAction(action);
+    });
+    if ((pad !== undefined) !== this.hadPad) {
+      this.hadPad = pad !== undefined;
+      updateHud();
+    }
+    this.pressed = down;
+    this.frameId = requestAnimationFrame(this.poll);
+  };
+
+  private actionsDown(pad: Gamepad): Set<InputAction> {
+    const down = new Set<InputAction>();
+    INPUT_ACTIONS.forEach((action) => {
+      if (
+        inputBindings.gamepad[action].some((button) =>
+          pad.buttons[button]?.pressed
+        )
+      ) {
+        down.add(action);
+      }
+    });
+
+    // Left stick, for pads without a standard D-pad mapping
+    const [x = 0, y = 0] = pad.axes;
+    const threshold = GamepadMovementController.STICK_THRESHOLD;
+    if (y < -threshold) down.add("north");
+    if (y > threshold) down.add("south");
+    if (x < -threshold) down.add("west");
+    if (x > threshold) down.add("east");
+    return down;
+  }
+}
+
+// Shared by the keyboard and gamepad controllers
+function performInputAction(action: InputAction): void {
+  switch (action) {
+    case "north":
+      handleGameEvents(engine.move(1, 0));
+      break;
+    case "south":
+      handleGameEvents(engine.move(-1, 0));
+      break;
+    case "west":
+      handleGameEvents(engine.move(0, -1));
+      break;
+    case "east":
+      handleGameEvents(engine.move(0, 1));
+      break;
+    case "interact": {
+      const { i, j } = engine.getPlayerPos();
+      handleGameEvents(engine.interact(i, j));
+      break;
+    }
   }
 }
 
 // Game state
-const cellContents = new Map<string, number>();
-let heldToken: number | null = null;
-const playerPos = { i: 0, j: 0 };
+// URL parameters (?mode=quick, ?minutes=5, ...) set up new games; a saved
+// game keeps the config it was started with
+const urlConfig = configFromParams(
+  new URLSearchParams(globalThis.location.search),
+);
+const engine = new GameEngine(urlConfig ?? PRESETS.classic);
+// Saves are kept in IndexedDB unless ?storage=localStorage or
+// ?storage=memory asks otherwise; saves older versions kept in
+// localStorage move there on first start. Opened before any listener is
+// added, so no input arrives while the active slot is still being read.
+const storageParam = new URLSearchParams(globalThis.location.search).get(
+  "storage",
+);
+const gameStorage = await openGameStorage(
+  isStorageKind(storageParam) ? storageParam : null,
+);
+const saveSlots = await SaveSlotManager.open(
+  gameStorage,
+  gameStorage.kind === "indexedDB" ? new LocalGameStorage() : null,
+);
+const savedSlotData = await saveSlots.read();
 let currentMovementController: MovementController | null = null;
+// Collects live GPS fixes while recording a track for later replay
+let trackRecorder: TrackRecorder | null = null;
+// Keyboard/gamepad bindings, and the action waiting for a new binding
+const inputBindings = loadBindings();
+let bindingCapture: { device: InputDevice; action: InputAction } | null = null;
 
 // Start map at Null Island (0, 0)
 const NULL_ISLAND = leaflet.latLng(0, 0);
@@ -238,18 +633,46 @@ const map = leaflet.map(mapDiv, {
   keyboard: false,
 });
 
-// Add tile layer (street map background)
-leaflet.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
-  maxZoom: 19,
-  attribution: "© OpenStreetMap",
-}).addTo(map);
-
-// Grid config
-const TILE_DEGREES = 1e-4;
-const GRID_SIZE = 5;
+// Basemap under the grid: ?tiles= overrides the last choice
+let tileSource = tileSourceFromParams(
+  new URLSearchParams(globalThis.location.search),
+) ?? loadTileSource();
+let tileLayer: leaflet.TileLayer | null = null;
+// Set when tiles kept failing and the plain grid is shown instead
+let basemapFailed = false;
+const TILE_ERROR_LIMIT = 6;
+
+function setTileSource(source: TileSource): void {
+  tileLayer?.remove();
+  tileLayer = null;
+  tileSource = source;
+  basemapFailed = false;
+  mapDiv.classList.toggle("no-basemap", source.url === null);
+  if (source.url === null) return;
+
+  const layer = leaflet.tileLayer(source.url, {
+    maxZoom: 19,
+    maxNativeZoom: source.maxZoom,
+    attribution: source.attribution,
+  });
 
-// Layer group to manage grid cells
-const gridLayerGroup = leaflet.layerGroup().addTo(map);
+  // Offline or a bad URL: if tiles keep failing before any has loaded,
+  // drop the basemap rather than leave grey squares
+  let loaded = false;
+  let errors = 0;
+  layer.on("tileload", () => loaded = true);
+  layer.on("tileerror", () => {
+    if (loaded || ++errors < TILE_ERROR_LIMIT || tileLayer !== layer) return;
+    console.warn(`Tiles from ${source.name} failed to load; using plain grid`);
+    layer.remove();
+    tileLayer = null;
+    basemapFailed = true;
+    mapDiv.classList.add("no-basemap");
+    updateHud();
+  });
+  tileLayer = layer.addTo(map);
+}
+setTileSource(tileSource);
 
 function gridToLatLngBounds(i: number, j: number) {
   const originLat = 0;
@@ -273,11 +696,68 @@ function initializeMovementController() {
 
   if (movementParam === "geolocation") {
     switchToGeolocationMovement();
+  } else if (movementParam === "keyboard") {
+    switchToKeyboardMovement();
+  } else if (movementParam === "gamepad") {
+    switchToGamepadMovement();
+  } else if (movementParam === "replay") {
+    // ?track=<url> replays a track served by the dev server; otherwise ask
+    // for a file, starting with buttons until one is picked
+    switchToButtonMovement();
+    const trackUrl = urlParams.get("track");
+    if (trackUrl) {
+      loadTrackFromUrl(trackUrl);
+    } else {
+      trackInput.click();
+    }
   } else {
     switchToButtonMovement();
   }
 }
 
+async function loadTrackFromUrl(url: string): Promise<void> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    switchToReplayMovement(parseTrack(await response.text()));
+  } catch (error) {
+    console.error("Failed to load track:", error);
+    showToast(
+      t("track.loadFailed", { url, error: (error as Error).message }),
+      "error",
+    );
+  }
+}
+
+// Journal movement mode changes, but not the mode picked at startup
+let journaledController: ControllerType | null = null;
+function journalModeSwitch(): void {
+  const type = currentMovementController!.type;
+  if (journaledController !== null && journaledController !== type) {
+    journal.add(
+      "mode",
+      t("controller.switched", { mode: CONTROLLER_NAMES[type] }),
+    );
+  }
+  journaledController = type;
+}
+
+function switchToReplayMovement(track: TrackPoint[]) {
+  console.log("Switching to track replay movement");
+  if (currentMovementController) {
+    currentMovementController.stop();
+  }
+
+  currentMovementController = new TrackReplayMovementController(
+    track,
+    Number(replaySpeedSelect.value),
+  );
+  currentMovementController.start();
+  journalModeSwitch();
+  updateModeToggle();
+  updateHud();
+}
+
 function switchToGeolocationMovement() {
   console.log("Switching to geolocation movement");
   // Stop current controller if exists
@@ -288,6 +768,34 @@ function switchToGeolocationMovement() {
   // Create and start geolocation controller
   currentMovementController = new GeolocationMovementController();
   currentMovementController.start();
+  journalModeSwitch();
+  updateModeToggle();
+  updateHud();
+}
+
+function switchToKeyboardMovement() {
+  console.log("Switching to keyboard movement");
+  if (currentMovementController) {
+    currentMovementController.stop();
+  }
+
+  currentMovementController = new KeyboardMovementController();
+  currentMovementController.start();
+  journalModeSwitch();
+  updateModeToggle();
+  updateHud();
+}
+
+function switchToGamepadMovement() {
+  console.log("Switching to gamepad movement");
+  if (currentMovementController) {
+    currentMovementController.stop();
+  }
+
+  currentMovementController = new GamepadMovementController();
+  currentMovementController.start();
+  journalModeSwitch();
+  updateModeToggle();
   updateHud();
 }
 
@@ -302,6 +810,8 @@ function switchToButtonMovement() {
   // Create and start button controller
   currentMovementController = new ButtonMovementController();
   currentMovementController.start();
+  journalModeSwitch();
+  updateModeToggle();
   updateHud();
 }
 
@@ -323,10 +833,30 @@ document.body.appendChild(hud);
 // Create directional buttons: N, W, E, S
 const buttonDiv = document.createElement("div");
 buttonDiv.innerHTML = `
-  <button id="btn-n" style="font-size:20px;width:40px;height:40px;">N</button><br>
-  <button id="btn-w" style="font-size:20px;width:40px;height:40px;">W</button>
-  <button id="btn-e" style="font-size:20px;width:40px;height:40px;">E</button><br>
-  <button id="btn-s" style="font-size:20px;width:40px;height:40px;">S</button>
+  <button id="btn-n" title="${
+  t("action.north")
+}" style="font-size:20px;width:40px;height:40px;">${
+  t("button.north")
+}</button><br>
+  <button id="btn-w" title="${
+  t("action.west")
+}" style="font-size:20px;width:40px;height:40px;">${t("button.west")}</button>
+  <button id="btn-e" title="${
+  t("action.east")
+}" style="font-size:20px;width:40px;height:40px;">${
+  t("button.east")
+}</button><br>
+  <button id="btn-s" title="${
+  t("action.south")
+}" style="font-size:20px;width:40px;height:40px;">${
+  t("button.south")
+}</button><br>
+  <button id="btn-undo" title="${
+  t("button.undo")
+}" style="font-size:16px;margin-top:8px;">↶</button>
+  <button id="btn-redo" title="${
+  t("button.redo")
+}" style="font-size:16px;margin-top:8px;">↷</button>
 `;
 buttonDiv.style.position = "fixed";
 buttonDiv.style.top = "20px";
@@ -339,8 +869,37 @@ document.body.appendChild(buttonDiv);
 const modeToggleDiv = document.createElement("div");
 modeToggleDiv.innerHTML = `
   <button id="btn-mode-toggle" style="font-size:14px;margin:4px;background:#4CAF50;color:white;border:none;padding:8px 12px;border-radius:4px;">
-    Switch to GPS
-  </button>
+    ${t("controller.switchTo", { mode: CONTROLLER_NAMES.gps })}
+  </button><br>
+  <button id="btn-bindings" style="font-size:14px;margin:4px;">${
+  t("button.controls")
+}</button>
+  <button id="btn-record" style="font-size:14px;margin:4px;">${
+  t("track.record")
+}</button>
+  <label id="replay-speed-label" style="font:14px sans-serif;background:white;padding:4px;border-radius:4px;">
+    ${t("track.speed")}
+    <select id="replay-speed">
+      <option value="0.5">0.5×</option>
+      <option value="1">1×</option>
+      <option value="2">2×</option>
+      <option value="5">5×</option>
+      <option value="10">10×</option>
+    </select>
+  </label>
+  <label style="font:14px sans-serif;background:white;padding:4px;border-radius:4px;">
+    ${t("label.map")}
+    <select id="tile-source"></select>
+  </label>
+  <label style="font:14px sans-serif;background:white;padding:4px;border-radius:4px;">
+    ${t("label.colours")}
+    <select id="palette"></select>
+  </label>
+  <label style="font:14px sans-serif;background:white;padding:4px;border-radius:4px;">
+    ${t("label.language")}
+    <select id="language"></select>
+  </label>
+  <input id="input-track" type="file" accept=".gpx,.geojson,.json" style="display:none;">
 `;
 
 modeToggleDiv.style.position = "fixed";
@@ -349,230 +908,980 @@ modeToggleDiv.style.right = "20px";
 modeToggleDiv.style.zIndex = "1000";
 document.body.appendChild(modeToggleDiv);
 
-// Movement mode toggle handler
+// Movement mode toggle cycles through the controllers
+const NEXT_CONTROLLER: Record<ControllerType, ControllerType> = {
+  buttons: "keyboard",
+  keyboard: "gamepad",
+  gamepad: "gps",
+  gps: "replay",
+  replay: "buttons",
+};
+
 document.getElementById("btn-mode-toggle")!.addEventListener("click", () => {
-  const currentMode = currentMovementController?.getMode();
-  if (currentMode === "🎮 Buttons") {
+  const next = NEXT_CONTROLLER[currentMovementController?.type ?? "replay"];
+  if (next === "keyboard") {
+    switchToKeyboardMovement();
+  } else if (next === "gamepad") {
+    switchToGamepadMovement();
+  } else if (next === "gps") {
     switchToGeolocationMovement();
-    (document.getElementById("btn-mode-toggle") as HTMLButtonElement)
-      .textContent = "Switch to Buttons";
+  } else if (next === "replay") {
+    // Replay starts once a track file is picked
+    trackInput.click();
   } else {
     switchToButtonMovement();
-    (document.getElementById("btn-mode-toggle") as HTMLButtonElement)
-      .textContent = "Switch to GPS";
   }
 });
 
-// Update HUD to show position too
-function updateHud() {
-  const pos = `(${playerPos.i}, ${playerPos.j})`;
-  const mode = currentMovementController
-    ? currentMovementController.getMode()
-    : "Buttons";
-  let status = "";
-  if (mode === "📍 GPS") {
-    status = " | GPS: Active";
-  }
-  hud.textContent = heldToken
-    ? `Holding: ${heldToken} | Pos: ${pos} | Mode: ${mode}${status}`
-    : `Holding: — | Pos: ${pos} | Mode: ${mode}${status}`;
+// Label the toggle with the next mode; recording only applies to GPS and
+// the speed picker only to replay
+function updateModeToggle(): void {
+  const current = currentMovementController?.type ?? "replay";
+  document.getElementById("btn-mode-toggle")!.textContent = t(
+    "controller.switchTo",
+    { mode: CONTROLLER_NAMES[NEXT_CONTROLLER[current]] },
+  );
+  recordButton.style.display = current === "gps" ? "inline" : "none";
+  replaySpeedLabel.style.display = current === "replay" ? "inline" : "none";
 }
 
-// Store markers to refresh
-const cellMarkers = new Map<string, leaflet.Marker>();
-
-// flyweight pattern: cell rendering optimization
-// intrinsic: rendering logic/style is shared across all cells
-// intrinsic: cell position (i,j) and value are pssed in during rendering
-function refreshCell(i: number, j: number) {
-  const key = `${i},${j}`;
-  const bounds = gridToLatLngBounds(i, j);
-  const value = cellContents.get(key);
-
-  const existingMarker = cellMarkers.get(key);
-  if (existingMarker) map.removeLayer(existingMarker);
-
-  // flyweight: shared rendering logic
-  const icon = leaflet.divIcon({
-    html: `<span style="
-      font: 12px monospace;
-      color: ${value !== undefined ? "white" : "#666"};
-      font-weight: ${value !== undefined ? "bold" : "normal"};
-      background: ${value !== undefined ? "#f44336" : "transparent"};
-      padding: ${value !== undefined ? "2px 4px" : "0"};
-      border-radius: 4px;
-    ">${value ?? `${i},${j}`}</span>`,
-    className: "cell-label",
-    iconSize: [30, 20],
-  });
-
-  const marker = leaflet.marker(bounds.getCenter(), { icon }).addTo(map);
-  cellMarkers.set(key, marker);
-}
+// Basemap picker; a custom ?tiles= template is listed while it's in use
+const tileSourceSelect = document.getElementById(
+  "tile-source",
+) as HTMLSelectElement;
+const tileSourceOptions = TILE_SOURCES.includes(tileSource)
+  ? TILE_SOURCES
+  : [...TILE_SOURCES, tileSource];
+tileSourceOptions.forEach((source) => {
+  tileSourceSelect.add(new Option(source.name, source.id));
+});
+tileSourceSelect.value = tileSource.id;
+tileSourceSelect.addEventListener("change", () => {
+  const source = tileSourceOptions.find((source) =>
+    source.id === tileSourceSelect.value
+  )!;
+  setTileSource(source);
+  saveTileSource(source);
+  updateHud();
+});
 
-// Redraw the grid centered on player position
-function redrawGrid() {
-  gridLayerGroup.clearLayers();
-  cellMarkers.forEach((marker) => map.removeLayer(marker));
-  cellMarkers.clear();
-
-  const centerI = playerPos.i;
-  const centerJ = playerPos.j;
-
-  for (let i = centerI - GRID_SIZE; i <= centerI + GRID_SIZE; i++) {
-    for (let j = centerJ - GRID_SIZE; j <= centerJ + GRID_SIZE; j++) {
-      const bounds = gridToLatLngBounds(i, j);
-      const key = `${i},${j}`;
-
-      if (!visitedCells.has(key)) {
-        visitedCells.add(key);
-        const spawnRoll = luck(key);
-        if (spawnRoll < 0.5) {
-          const valueRoll = luck(key + "value");
-          const value = valueRoll < 0.7 ? 1 : 2;
-          cellContents.set(key, value);
-        }
-      }
+// Cell and token colours: default, high contrast or colour-blind safe.
+// The body carries the choice so panels can follow it in style.css.
+let palette = loadPalette();
+document.body.dataset.palette = palette.id;
+const paletteSelect = document.getElementById("palette") as HTMLSelectElement;
+PALETTES.forEach((option) => {
+  paletteSelect.add(new Option(option.name, option.id));
+});
+paletteSelect.value = palette.id;
+paletteSelect.addEventListener("change", () => {
+  palette = PALETTES.find((option) => option.id === paletteSelect.value)!;
+  document.body.dataset.palette = palette.id;
+  gridRenderer.setPalette(palette);
+  explorationLayer.setPalette(palette);
+  savePalette(palette);
+});
 
-      const rect = leaflet.rectangle(bounds, {
-        color: "#555",
-        weight: 1,
-        fillColor: "#ffeb3b",
-        fillOpacity: 0.1,
-        interactive: true,
-      }).addTo(gridLayerGroup);
-
-      // try to interact with tokens
-      rect.on("click", () => {
-        const distI = Math.abs(i - playerPos.i);
-        const distJ = Math.abs(j - playerPos.j);
-        if (distI > 3 || distJ > 3) {
-          alert("Too far! Must be within 3 cells. 🚶‍♂️❌");
-          return;
-        }
+// Language: the browser's unless the player picks one. Messages are
+// looked up as the page loads, so a new choice takes effect on reload.
+document.documentElement.lang = getLocale();
+const languageSelect = document.getElementById(
+  "language",
+) as HTMLSelectElement;
+languageSelect.add(new Option(t("language.browser"), ""));
+Object.entries(LOCALE_NAMES).forEach(([locale, name]) => {
+  languageSelect.add(new Option(name, locale));
+});
+languageSelect.value = loadLocaleChoice() ?? "";
+languageSelect.addEventListener("change", () => {
+  const choice = languageSelect.value;
+  saveLocaleChoice(isLocale(choice) ? choice : null);
+  location.reload();
+});
 
-        const cellValue = cellContents.get(key);
-        if (heldToken === null) {
-          if (cellValue !== undefined) {
-            heldToken = cellValue;
-            cellContents.delete(key);
-            updateHud();
-            refreshCell(i, j);
-            autoSave();
-          }
-        } else if (cellValue !== undefined) {
-          if (heldToken === cellValue) {
-            const newValue = heldToken * 2;
-            heldToken = newValue;
-            cellContents.delete(key);
-            updateHud();
-            refreshCell(i, j);
-            autoSave();
-            if (newValue === 256) {
-              alert("Congrats on getting 256 points! 🎉 You win! 🎉");
-            }
-          } else {
-            cellContents.set(key, heldToken);
-            heldToken = cellValue;
-            updateHud();
-            refreshCell(i, j);
-            autoSave();
-          }
-        }
-      });
-    }
+// Track replay: pick a GPX/GeoJSON file and a speed (?speed=N sets it)
+const trackInput = document.getElementById("input-track") as HTMLInputElement;
+const replaySpeedSelect = document.getElementById(
+  "replay-speed",
+) as HTMLSelectElement;
+const replaySpeedLabel = document.getElementById("replay-speed-label")!;
+const speedParam = Number(
+  new URLSearchParams(globalThis.location.search).get("speed"),
+);
+if (speedParam > 0) {
+  if (!replaySpeedSelect.querySelector(`option[value="${speedParam}"]`)) {
+    replaySpeedSelect.add(new Option(`${speedParam}×`, `${speedParam}`));
   }
+  replaySpeedSelect.value = `${speedParam}`;
+} else {
+  replaySpeedSelect.value = "1";
 }
 
-// === Save & Load Game State ===
-
-// Memento: object that stores saved game state
-interface SavedGameState {
-  playerPos: { i: number; j: number };
-  heldToken: number | null;
-  cellContents: Record<string, number>;
-}
-// === localStorage Persistence ===
-const STORAGE_KEY = "coinCollectorGameState";
-
-// saveState uses localStorage
-function saveState(): void {
-  const gameState: SavedGameState = {
-    playerPos: { i: playerPos.i, j: playerPos.j },
-    heldToken,
-    cellContents: Object.fromEntries(cellContents),
-  };
+trackInput.addEventListener("change", async () => {
+  const file = trackInput.files?.[0];
+  trackInput.value = "";
+  if (!file) return;
 
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(gameState));
-    console.log("Game state saved to localStorage");
+    switchToReplayMovement(parseTrack(await file.text()));
   } catch (error) {
-    console.error("Failed to save game state:", error);
-    alert("Failed to save game. Storage might be full.");
+    console.error("Failed to read track:", error);
+    showToast(
+      t("track.readFailed", {
+        file: file.name,
+        error: (error as Error).message,
+      }),
+      "error",
+    );
   }
-}
-
-// loadState uses localStorage
-function loadState(): void {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (!saved) {
-      console.log("No saved game found");
-      return;
-    }
-
-    const gameState: SavedGameState = JSON.parse(saved);
+});
 
-    // Restore player position
-    if (
-      gameState.playerPos && typeof gameState.playerPos.i === "number" &&
-      typeof gameState.playerPos.j === "number"
-    ) {
-      playerPos.i = gameState.playerPos.i;
-      playerPos.j = gameState.playerPos.j;
-    }
+replaySpeedSelect.addEventListener("change", () => {
+  if (currentMovementController instanceof TrackReplayMovementController) {
+    currentMovementController.setSpeed(Number(replaySpeedSelect.value));
+  }
+});
 
-    // Restore held token
-    heldToken = gameState.heldToken;
+// === Controls Panel: remap keyboard and gamepad bindings ===
+const bindingsPanel = document.createElement("div");
+bindingsPanel.id = "bindingsPanel";
+bindingsPanel.style.display = "none";
+document.body.appendChild(bindingsPanel);
+
+document.getElementById("btn-bindings")!.addEventListener("click", () => {
+  const hidden = bindingsPanel.style.display === "none";
+  bindingsPanel.style.display = hidden ? "block" : "none";
+  bindingCapture = null;
+  if (hidden) renderBindingsPanel();
+});
 
-    // Restore cell contents
-    cellContents.clear();
-    if (gameState.cellContents) {
-      Object.entries(gameState.cellContents).forEach(([key, value]) => {
-        if (typeof value === "number") {
-          cellContents.set(key, value);
-        }
+function renderBindingsPanel(): void {
+  bindingsPanel.innerHTML = `
+    <h3>${t("bindings.title")}</h3>
+    <table>
+      <tr><th></th><th>${t("bindings.keyboard")}</th><th>${
+    t("bindings.gamepad")
+  }</th></tr>
+    </table>
+  `;
+  const table = bindingsPanel.querySelector("table")!;
+  INPUT_ACTIONS.forEach((action) => {
+    const row = table.insertRow();
+    row.insertCell().textContent = ACTION_NAMES[action];
+    (["keyboard", "gamepad"] as const).forEach((device) => {
+      const waiting = bindingCapture?.device === device &&
+        bindingCapture.action === action;
+      const inputs = inputBindings[device][action] as (string | number)[];
+      const button = document.createElement("button");
+      button.textContent = waiting
+        ? t(
+          device === "keyboard" ? "bindings.pressKey" : "bindings.pressButton",
+        )
+        : inputs.map((input) => inputLabel(device, input)).join(" / ") ||
+          "—";
+      button.addEventListener("click", () => {
+        bindingCapture = { device, action };
+        renderBindingsPanel();
+        if (device === "gamepad") requestAnimationFrame(captureGamepadButton);
       });
-    }
-
-    // Also restore visited cells for consistency
-    visitedCells.clear();
-    Array.from(cellContents.keys()).forEach((key) => visitedCells.add(key));
+      row.insertCell().appendChild(button);
+    });
+  });
 
-    redrawGrid();
-    updateHud();
+  const resetButton = document.createElement("button");
+  resetButton.textContent = t("bindings.reset");
+  resetButton.addEventListener("click", () => {
+    Object.assign(inputBindings, structuredClone(DEFAULT_BINDINGS));
+    applyBindingChange();
+  });
+  bindingsPanel.appendChild(resetButton);
+}
 
-    const center = gridToLatLngBounds(playerPos.i, playerPos.j).getCenter();
-    map.panTo(center);
+function applyBindingChange(): void {
+  bindingCapture = null;
+  saveBindings(inputBindings);
+  renderBindingsPanel();
+  updateHud();
+}
 
-    console.log("Game state loaded from localStorage");
-  } catch (error) {
-    console.error("Failed to load game state:", error);
-    alert("Failed to load saved game. Data might be corrupted.");
+// Capture the next key for a keyboard binding (Escape cancels); runs in the
+// capture phase so the key doesn't also move the player
+document.addEventListener("keydown", (event) => {
+  if (bindingCapture?.device !== "keyboard") return;
+  event.preventDefault();
+  event.stopImmediatePropagation();
+  if (event.key === "Escape") {
+    bindingCapture = null;
+    renderBindingsPanel();
+    return;
+  }
+  rebind(
+    inputBindings,
+    "keyboard",
+    bindingCapture.action,
+    normalizeKey(event.key),
+  );
+  applyBindingChange();
+}, true);
+
+// Capture the next gamepad button pressed, polling until one is
+function captureGamepadButton(): void {
+  if (bindingCapture?.device !== "gamepad") return;
+  for (const pad of navigator.getGamepads()) {
+    const button = pad?.buttons.findIndex((button) => button.pressed) ?? -1;
+    if (button >= 0) {
+      rebind(inputBindings, "gamepad", bindingCapture.action, button);
+      applyBindingChange();
+      return;
+    }
   }
+  requestAnimationFrame(captureGamepadButton);
 }
 
-// Auto-save function to call after any game state change
+// Record the live GPS session into a GeoJSON track file
+const recordButton = document.getElementById(
+  "btn-record",
+) as HTMLButtonElement;
+recordButton.addEventListener("click", () => {
+  if (!trackRecorder) {
+    trackRecorder = new TrackRecorder();
+    recordButton.textContent = t("track.stopRecording");
+    console.log("Started recording GPS track");
+    return;
+  }
+
+  const recorder = trackRecorder;
+  trackRecorder = null;
+  recordButton.textContent = t("track.record");
+  if (recorder.getPointCount() === 0) {
+    showToast(t("track.nothingRecorded"), "warning");
+    return;
+  }
+  downloadJson("gps-track", recorder.toGeoJson(), "geojson");
+  console.log(`Saved GPS track with ${recorder.getPointCount()} points`);
+});
+
+// Inventory panel: click a slot to make it active, "+" merges that slot's
+// token into the active slot
+const inventoryPanel = document.createElement("div");
+inventoryPanel.id = "inventoryPanel";
+document.body.appendChild(inventoryPanel);
+
+function renderInventory(): void {
+  const activeSlot = engine.getActiveSlot();
+  inventoryPanel.innerHTML = "";
+  engine.getInventory().forEach((token, slot) => {
+    const slotDiv = document.createElement("div");
+    slotDiv.className = slot === activeSlot
+      ? "inventory-slot active"
+      : "inventory-slot";
+    slotDiv.title = t("inventory.slot", { number: slot + 1 });
+
+    const tokenButton = document.createElement("button");
+    tokenButton.textContent = token === null ? "—" : `${token}`;
+    tokenButton.addEventListener("click", () => {
+      handleGameEvents(engine.selectSlot(slot));
+    });
+    slotDiv.appendChild(tokenButton);
+
+    const activeToken = engine.getHeldToken();
+    if (
+      slot !== activeSlot && token !== null &&
+      (activeToken === null || activeToken === token)
+    ) {
+      const mergeButton = document.createElement("button");
+      mergeButton.className = "merge";
+      mergeButton.textContent = "+";
+      mergeButton.title = t("inventory.merge", { number: activeSlot + 1 });
+      mergeButton.addEventListener("click", () => {
+        handleGameEvents(engine.mergeSlots(slot, activeSlot));
+      });
+      slotDiv.appendChild(mergeButton);
+    }
+    inventoryPanel.appendChild(slotDiv);
+  });
+}
+
+// Number keys select inventory slots, unless they're typed into a form
+document.addEventListener("keydown", (event) => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return;
+  if (isEditableTarget(event.target)) return;
+  const slot = Number(event.key) - 1;
+  if (Number.isInteger(slot) && slot >= 0) {
+    handleGameEvents(engine.selectSlot(slot));
+  }
+});
+
+// Undo / Redo buttons and keyboard shortcuts
+const undoButton = document.getElementById("btn-undo") as HTMLButtonElement;
+const redoButton = document.getElementById("btn-redo") as HTMLButtonElement;
+undoButton.addEventListener("click", () => {
+  handleGameEvents(engine.undo());
+});
+redoButton.addEventListener("click", () => {
+  handleGameEvents(engine.redo());
+});
+// Text fields keep their own undo
+document.addEventListener("keydown", (event) => {
+  if (!(event.ctrlKey || event.metaKey)) return;
+  if (isEditableTarget(event.target)) return;
+  const key = event.key.toLowerCase();
+  if (key === "z" && !event.shiftKey) {
+    event.preventDefault();
+    handleGameEvents(engine.undo());
+  } else if (key === "y" || (key === "z" && event.shiftKey)) {
+    event.preventDefault();
+    handleGameEvents(engine.redo());
+  }
+});
+
+// Update HUD to show position too
+function updateHud() {
+  const playerPos = engine.getPlayerPos();
+  const heldToken = engine.getHeldToken();
+  const pos = `(${playerPos.i}, ${playerPos.j})`;
+  const mode = controllerLabel(currentMovementController?.type ?? "buttons");
+  const parts = [
+    t("hud.holding", { token: heldToken ?? "—" }),
+    t("hud.pos", { pos }),
+    t("hud.mode", { mode }),
+  ];
+  if (currentMovementController instanceof GeolocationMovementController) {
+    parts.push(
+      t("hud.gps", { signal: currentMovementController.describeSignal() }),
+    );
+  }
+  if (basemapFailed) {
+    parts.push(t("hud.tilesUnavailable"));
+  }
+  const hint = currentMovementController?.getControlsHint?.();
+  if (hint) {
+    parts.push(hint);
+  }
+  const slot = saveSlots.getActiveSlot().name;
+  const seed = engine.getConfig().seed;
+  parts.push(t("hud.slot", { slot }), gameProgress());
+  if (seed) parts.push(t("hud.world", { seed }));
+  undoButton.disabled = !engine.canUndo();
+  redoButton.disabled = !engine.canRedo();
+  renderInventory();
+  hud.textContent = parts.join(" | ");
+  announceHudChanges(mode, slot);
+}
+
+// Screen readers hear the HUD when its slower-moving parts change; moves
+// and pickups are announced as they happen, and clocks and GPS accuracy
+// would never stop talking
+let announcedHud: string | null = null;
+function announceHudChanges(mode: string, slot: string): void {
+  const parts = [t("hud.mode", { mode })];
+  if (currentMovementController instanceof GeolocationMovementController) {
+    parts.push(
+      t("hud.gps", {
+        signal: currentMovementController.describeSignalQuality(),
+      }),
+    );
+  }
+  if (basemapFailed) parts.push(t("hud.tilesUnavailable"));
+  parts.push(t("hud.slot", { slot }), describeGame());
+  const spoken = parts.join(". ");
+  if (announcedHud !== null && spoken !== announcedHud) announce(spoken);
+  announcedHud = spoken;
+}
+
+// e.g. "Classic: Make 256"
+function describeGame(): string {
+  const config = engine.getConfig();
+  return t("hud.game", {
+    mode: MODE_NAMES[config.mode],
+    goal: describeGoal(config),
+  });
+}
+
+// The game and the time or steps left in it, or how it ended
+function gameProgress(): string {
+  const game = describeGame();
+  if (engine.getResult()) return t("hud.over", { game });
+  const timeLeft = engine.getTimeLeftMs();
+  if (timeLeft !== null) {
+    return t("hud.timeLeft", { game, time: formatDuration(timeLeft) });
+  }
+  const stepsLeft = engine.getStepsLeft();
+  if (stepsLeft !== null) {
+    return t("hud.movesLeft", { game, count: stepsLeft });
+  }
+  return game;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Draws the cells in view; kept in step with the map as it pans.
+// ?renderer=canvas draws onto one canvas instead of an element per cell,
+// for large neighbourhoods on slower devices
+const gridSource: GridSource = {
+  cellBounds: gridToLatLngBounds,
+  cellAt: (latLng) => ({
+    i: Math.floor(latLng.lat / TILE_DEGREES),
+    j: Math.floor(latLng.lng / TILE_DEGREES),
+  }),
+  getCell: (i, j) => engine.getCell(i, j),
+  getCountdown: (i, j) => {
+    const left = engine.getRegenerationTimeLeft(i, j);
+    return left === null ? null : formatDuration(left);
+  },
+  isInRange: (i, j) => engine.isInRange(i, j),
+  isExplored: (i, j) => explored.has(i, j),
+  getPlayerPos: () => engine.getPlayerPos(),
+  onCellClick: (i, j) => handleGameEvents(engine.interact(i, j)),
+  onCellHold: (i, j) => showCellHistory(i, j),
+};
+const gridRenderer: GridRenderer =
+  new URLSearchParams(globalThis.location.search).get("renderer") === "canvas"
+    ? new CanvasGridRenderer(map, gridSource)
+    : new DomGridRenderer(map, gridSource);
+gridRenderer.setPalette(palette);
+map.on("moveend", () => redrawGrid());
+
+function refreshCell(i: number, j: number) {
+  gridRenderer.refreshCell(i, j);
+}
+
+// Cells covering the map's viewport (plus a one-cell border so panning
+// doesn't show gaps), and always at least gridSize cells around the player
+function visibleCellRange(): CellRange {
+  const bounds = map.getBounds();
+  const { i, j } = engine.getPlayerPos();
+  const gridSize = engine.getConfig().gridSize;
+  return {
+    minI: Math.min(
+      Math.floor(bounds.getSouth() / TILE_DEGREES) - 1,
+      i - gridSize,
+    ),
+    maxI: Math.max(
+      Math.floor(bounds.getNorth() / TILE_DEGREES) + 1,
+      i + gridSize,
+    ),
+    minJ: Math.min(
+      Math.floor(bounds.getWest() / TILE_DEGREES) - 1,
+      j - gridSize,
+    ),
+    maxJ: Math.max(
+      Math.floor(bounds.getEast() / TILE_DEGREES) + 1,
+      j + gridSize,
+    ),
+  };
+}
+
+// Bring the grid up to date: cells entering view are added, cells leaving
+// it removed, and labels of the rest refreshed in place. The exploration
+// view replaces the grid while it's open.
+function redrawGrid() {
+  if (exploring) {
+    explorationLayer.render();
+  } else {
+    gridRenderer.render(visibleCellRange());
+  }
+  renderCellList();
+}
+
+// === Cell List: the cells in reach as text, an alternative to the map ===
+const cellListPanel = document.createElement("div");
+cellListPanel.id = "cellListPanel";
+cellListPanel.style.display = "none";
+cellListPanel.setAttribute("role", "region");
+cellListPanel.setAttribute("aria-label", t("cellList.title"));
+document.body.appendChild(cellListPanel);
+buttonDiv.insertAdjacentHTML(
+  "beforeend",
+  `<br><button id="btn-cell-list" title="${
+    t("button.cellList")
+  }" aria-expanded="false" style="font-size:16px;margin-top:8px;">📋</button>`,
+);
+
+const cellListButton = document.getElementById("btn-cell-list")!;
+cellListButton.addEventListener("click", () => {
+  const hidden = cellListPanel.style.display === "none";
+  cellListPanel.style.display = hidden ? "block" : "none";
+  cellListButton.setAttribute("aria-expanded", String(hidden));
+  renderCellList();
+});
+
+// Nearest first, each a button that interacts with the cell; keeps focus
+// on the same cell's button across re-renders
+function renderCellList(): void {
+  if (cellListPanel.style.display === "none") return;
+  const focused = (document.activeElement as HTMLElement | null)?.dataset
+    .cell;
+  const { i, j } = engine.getPlayerPos();
+  const range = engine.getConfig().interactionRange;
+  const cells: { i: number; j: number; distance: number }[] = [];
+  for (let di = -range; di <= range; di++) {
+    for (let dj = -range; dj <= range; dj++) {
+      if (!engine.isInRange(i + di, j + dj)) continue;
+      cells.push({ i: i + di, j: j + dj, distance: Math.hypot(di, dj) });
+    }
+  }
+  cells.sort((a, b) => a.distance - b.distance);
+
+  cellListPanel.innerHTML = `<h3>${t("cellList.title")}</h3>`;
+  const list = document.createElement("ul");
+  cells.forEach((cell) => {
+    const button = document.createElement("button");
+    button.dataset.cell = cellKey(cell.i, cell.j);
+    button.textContent = t("cellList.entry", {
+      cell: describeCell(gridSource, cell.i, cell.j),
+      offset: describeOffset(cell.i - i, cell.j - j),
+    });
+    button.addEventListener(
+      "click",
+      () => handleGameEvents(engine.interact(cell.i, cell.j)),
+    );
+    list.appendChild(document.createElement("li")).appendChild(button);
+    if (button.dataset.cell === focused) button.focus();
+  });
+  cellListPanel.appendChild(list);
+}
+
+// Where a cell is relative to the player, e.g. "2 north, 1 west"
+function describeOffset(di: number, dj: number): string {
+  const parts = [
+    di === 0
+      ? ""
+      : t(di > 0 ? "offset.north" : "offset.south", { count: Math.abs(di) }),
+    dj === 0
+      ? ""
+      : t(dj > 0 ? "offset.east" : "offset.west", { count: Math.abs(dj) }),
+  ].filter(Boolean);
+  return parts.join(", ") || t("offset.here");
+}
+
+// Render the results of engine operations
+function handleGameEvents(events: GameEvent[]): void {
+  let changed = false;
+  for (const event of events) {
+    const entry = journalEvent(event);
+    if (entry) announce(entry.message);
+    switch (event.type) {
+      case "outOfRange":
+        showToast(t("cell.tooFar", { count: event.range }), "warning", 2000);
+        break;
+      case "merged":
+        statsTracker.recordMerge(event.value);
+        refreshCell(event.i, event.j);
+        changed = true;
+        break;
+      case "pickedUp":
+      case "swapped":
+      case "dropped":
+        refreshCell(event.i, event.j);
+        changed = true;
+        break;
+      case "slotMerged":
+        statsTracker.recordMerge(event.value);
+        changed = true;
+        break;
+      case "slotMoved":
+      case "slotSelected":
+        changed = true;
+        break;
+      case "placed":
+      case "moved": {
+        const range = engine.getConfig().interactionRange;
+        if (event.type === "moved") {
+          statsTracker.recordPath(event.from, event.to);
+          explored.revealAlong(event.from, event.to, range);
+          statsTracker.recordMoves(
+            currentMovementController?.type ?? "buttons",
+            cellsBetween(event.from, event.to),
+          );
+        } else {
+          statsTracker.recordVisit(event.to);
+          explored.revealAround(event.to.i, event.to.j, range);
+        }
+        const center = gridToLatLngBounds(event.to.i, event.to.j).getCenter();
+        map.panTo(center);
+        redrawGrid();
+        changed = true;
+        break;
+      }
+      case "gameOver":
+        announce(OUTCOME_TITLES[event.result.outcome], "assertive");
+        showSummary(event.result);
+        changed = true;
+        break;
+      case "undone":
+      case "redone":
+        if (event.command.type === "moved") {
+          const { i, j } = engine.getPlayerPos();
+          map.panTo(gridToLatLngBounds(i, j).getCenter());
+          redrawGrid();
+        } else if ("i" in event.command) {
+          refreshCell(event.command.i, event.command.j);
+        }
+        changed = true;
+        break;
+      case "nothing":
+        break;
+    }
+  }
+
+  if (changed) {
+    statsTracker.recordToken(engine.getHighestToken());
+    announceAchievements();
+    renderJournalPanel();
+    updateHud();
+    autoSave();
+  }
+}
+
+// Journal entry for a command: a cell's entry records the token taken
+// from it and the token left in it
+function describeCommand(command: GameCommand): JournalEntry | null {
+  const at = (i: number, j: number) => ({
+    pos: `(${i}, ${j})`,
+    cell: { i, j },
+  });
+  switch (command.type) {
+    case "moved": {
+      const { pos, cell } = at(command.to.i, command.to.j);
+      return journalEntry("move", t("journal.moved", { pos }), { cell });
+    }
+    case "pickedUp": {
+      const { pos, cell } = at(command.i, command.j);
+      return journalEntry(
+        "pickup",
+        t("journal.pickedUp", { value: command.value, pos }),
+        { cell, taken: command.value },
+      );
+    }
+    case "merged": {
+      const { pos, cell } = at(command.i, command.j);
+      return journalEntry(
+        "merge",
+        t("journal.merged", { value: command.value, pos }),
+        { cell, taken: command.value / 2 },
+      );
+    }
+    case "swapped": {
+      const { pos, cell } = at(command.i, command.j);
+      return journalEntry(
+        "swap",
+        t("journal.swapped", { left: command.left, held: command.held, pos }),
+        { cell, taken: command.held, left: command.left },
+      );
+    }
+    case "dropped": {
+      const { pos, cell } = at(command.i, command.j);
+      return journalEntry(
+        "drop",
+        t("journal.dropped", { value: command.value, pos }),
+        { cell, left: command.value },
+      );
+    }
+    case "slotMerged":
+      return journalEntry(
+        "merge",
+        t("journal.slotMerged", {
+          from: command.from + 1,
+          to: command.to + 1,
+          value: command.value,
+        }),
+      );
+    case "slotMoved":
+      return null;
+  }
+}
+
+function journalEntry(
+  category: JournalCategory,
+  message: string,
+  details: Pick<JournalEntry, "cell" | "taken" | "left"> = {},
+): JournalEntry {
+  return { time: Date.now(), category, message, ...details };
+}
+
+// Journals what an event did; returns the entry, or null for events that
+// aren't journaled
+function journalEvent(event: GameEvent): JournalEntry | null {
+  switch (event.type) {
+    case "pickedUp":
+    case "merged":
+    case "swapped":
+    case "dropped":
+    case "slotMerged":
+    case "moved": {
+      const described = describeCommand(event);
+      if (described) journal.addEntry(described);
+      return described;
+    }
+    case "placed": {
+      // Journaled like a move, so the journal shows where the game began
+      const described = describeCommand({ ...event, type: "moved" });
+      if (described) journal.addEntry(described);
+      return described;
+    }
+    case "undone":
+    case "redone": {
+      const described = describeCommand(event.command);
+      if (!described) return null;
+      const { taken, left } = described;
+      if (event.type === "undone") {
+        // Undoing puts back what was taken and takes back what was left
+        delete described.taken;
+        delete described.left;
+        if (left !== undefined) described.taken = left;
+        if (taken !== undefined) described.left = taken;
+      }
+      described.message = t(
+        event.type === "undone" ? "journal.undid" : "journal.redid",
+        { action: described.message },
+      );
+      journal.addEntry(described);
+      return described;
+    }
+    default:
+      return null;
+  }
+}
+
+// === Save & Load Game State ===
+
+// === Persistence ===
+// Lifetime stats of the active slot, saved next to its game
+const statsTracker = new StatsTracker(parseStats(savedSlotData.stats));
+// The active slot's activity journal, saved next to its game
+const journal = new ActivityJournal(parseJournal(savedSlotData.journal));
+// Cells the active slot's player has explored, saved next to its game
+const explored = readExploredArea(savedSlotData.explored);
+
+// Slots saved before the explored area existed start from the cells their
+// stats remember visiting
+function readExploredArea(json: string | null): ExploredArea {
+  const saved = parseExploredArea(json);
+  if (saved) return saved;
+  const area = new ExploredArea();
+  const range = engine.getConfig().interactionRange;
+  statsTracker.getStats().visitedCells.forEachCell(null, (i, j) => {
+    area.revealAround(i, j, range);
+  });
+  return area;
+}
+
+// Wherever the player is put, their neighbourhood is explored
+function revealAroundPlayer(): void {
+  const { i, j } = engine.getPlayerPos();
+  explored.revealAround(i, j, engine.getConfig().interactionRange);
+}
+
+// Autosaves wait this long, so a burst of moves becomes one write
+const AUTOSAVE_DELAY_MS = 1000;
+let autoSaveTimer: ReturnType<typeof setTimeout> | null = null;
+// Saves run one after another, each from the revision the last one left
+let saving: Promise<void> = Promise.resolve();
+
+// saveState writes the active save slot once any save under way is done;
+// spectating tabs don't start saves. Autosaves happen on every change, so
+// only saves given a journal note show up in the journal.
+function saveState(note?: string): Promise<void> {
+  if (isSpectating()) return saving;
+  if (autoSaveTimer !== null) {
+    clearTimeout(autoSaveTimer);
+    autoSaveTimer = null;
+  }
+  if (note) journal.add("save", note);
+  return queueWrite(() => writeState(note));
+}
+
+// The pending autosave of a tab another tab just took over is still
+// written, with any save under way, before the tab follows the new one
+function flushAutoSave(): Promise<void> {
+  if (autoSaveTimer === null) return saving;
+  clearTimeout(autoSaveTimer);
+  autoSaveTimer = null;
+  return queueWrite(() => writeState());
+}
+
+// A failed save doesn't stop the ones after it
+function queueWrite(write: () => Promise<void>): Promise<void> {
+  saving = saving.then(write).catch((error) =>
+    console.error("Failed to save game state:", error)
+  );
+  return saving;
+}
+
+async function writeState(note?: string): Promise<void> {
+  try {
+    engine.setRevision(
+      await saveSlots.write({
+        game: engine.toMemento(),
+        stats: statsTracker.getStats(),
+        journal: journal.toJSON(),
+        explored: explored.toJSON(),
+      }),
+    );
+    console.log(
+      `Game state saved to slot "${saveSlots.getActiveSlot().name}"`,
+    );
+    if (note !== undefined) await warnIfStorageNearlyFull();
+  } catch (error) {
+    if (error instanceof SaveConflictError) {
+      // Another tab saved since this one loaded: keep its progress
+      console.warn(error.message);
+      showToast(t("save.conflict"), "warning");
+      await saveSlots.reloadIndex();
+      await loadActiveSlot();
+      journal.add("save", t("journal.conflict"));
+      renderSlotPanel();
+      return;
+    }
+    journal.add("save", t("journal.saveFailed"));
+    console.error("Failed to save game state:", error);
+    showToast(await describeSaveFailure(error), "error");
+  }
+}
+
+// loadState restores the active save slot's game, read by the caller
+function loadState(saved: string | null): void {
+  try {
+    if (!saved) {
+      console.log("No saved game found");
+      return;
+    }
+
+    if (applyLoadedState(parseSave(saved), t("source.savedGame"))) {
+      console.log(
+        `Game state loaded from slot "${saveSlots.getActiveSlot().name}"`,
+      );
+    }
+  } catch (error) {
+    console.error("Failed to load game state:", error);
+    showToast(t("load.failed"), "error");
+  }
+}
+
+const STORAGE_NAMES: Record<StorageKind, string> = {
+  indexedDB: t("storage.indexedDB"),
+  localStorage: t("storage.localStorage"),
+  memory: t("storage.memory"),
+};
+// Warn once per visit when saves use more than this share of the quota
+const STORAGE_WARNING_SHARE = 0.9;
+let storageWarned = false;
+
+// e.g. "1.2 MB"
+function formatBytes(bytes: number): string {
+  return formatNumber(bytes / (1024 * 1024), {
+    style: "unit",
+    unit: "megabyte",
+    maximumFractionDigits: 1,
+  });
+}
+
+// How much of the storage is used, e.g. "1.2 MB of 5 MB used"
+async function describeStorageUsage(): Promise<string> {
+  const { usage, quota } = await gameStorage.estimate();
+  return quota === null
+    ? t("storage.used", { used: formatBytes(usage) })
+    : t("storage.usedOfQuota", {
+      used: formatBytes(usage),
+      quota: formatBytes(quota),
+    });
+}
+
+async function warnIfStorageNearlyFull(): Promise<void> {
+  if (storageWarned) return;
+  const { usage, quota } = await gameStorage.estimate();
+  if (quota === null || usage < quota * STORAGE_WARNING_SHARE) return;
+  storageWarned = true;
+  showToast(
+    t("storage.nearlyFull", { usage: await describeStorageUsage() }),
+    "warning",
+  );
+}
+
+// Full storage gets its own message, with how much is used
+async function describeSaveFailure(error: unknown): Promise<string> {
+  let usage = "";
+  try {
+    usage = await describeStorageUsage();
+  } catch (estimateError) {
+    console.error("Failed to estimate storage:", estimateError);
+  }
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return t("save.full", { usage });
+  }
+  return usage ? t("save.failedUsage", { usage }) : t("save.failed");
+}
+
+// Restore a parsed save into the engine and redraw; reports invalid saves
+function applyLoadedState(result: ParseResult, source: string): boolean {
+  if (!result.ok) {
+    console.error(`Invalid ${source}:`, result.errors);
+    messageDialog(
+      t("load.invalidFields", { errors: result.errors.join("\n") }),
+      t("load.invalidTitle", { source }),
+    );
+    return false;
+  }
+  if (result.migratedFrom !== result.state.version) {
+    console.log(
+      `Upgraded ${source} from v${result.migratedFrom} to v${result.state.version}`,
+    );
+  }
+
+  engine.restore(result.state);
+  revealAroundPlayer();
+  // Imported and linked games replace whatever revision is stored
+  engine.setRevision(saveSlots.getRevision());
+  const playerPos = engine.getPlayerPos();
+
+  redrawGrid();
+  updateHud();
+
+  const center = gridToLatLngBounds(playerPos.i, playerPos.j).getCenter();
+  map.panTo(center);
+  return true;
+}
+
+// Auto-save after any game state change, at most once per delay
 function autoSave(): void {
-  saveState();
+  if (isSpectating() || autoSaveTimer !== null) return;
+  autoSaveTimer = setTimeout(() => {
+    autoSaveTimer = null;
+    saveState();
+  }, AUTOSAVE_DELAY_MS);
 }
 
 // Create Save and Load buttons
 const saveLoadDiv = document.createElement("div");
 saveLoadDiv.innerHTML = `
-  <button id="btn-new-game" style="font-size:14px;margin:4px;background:#ff4444;color:white;border:none;padding:8px 12px;border-radius:4px;">🔄 New Game</button>
-  <button id="btn-save" style="font-size:14px;margin:4px;">💾 Save</button>
-  <button id="btn-load" style="font-size:14px;margin:4px;">📂 Load</button>
+  <button id="btn-new-game" style="font-size:14px;margin:4px;background:#ff4444;color:white;border:none;padding:8px 12px;border-radius:4px;">${
+  t("button.newGame")
+}</button>
+  <button id="btn-save" style="font-size:14px;margin:4px;">${
+  t("button.save")
+}</button>
+  <button id="btn-load" style="font-size:14px;margin:4px;">${
+  t("button.load")
+}</button>
+  <button id="btn-export" style="font-size:14px;margin:4px;">${
+  t("button.export")
+}</button>
+  <button id="btn-import" style="font-size:14px;margin:4px;">${
+  t("button.import")
+}</button>
+  <button id="btn-share" style="font-size:14px;margin:4px;">${
+  t("button.share")
+}</button>
+  <button id="btn-slots" style="font-size:14px;margin:4px;">${
+  t("button.slots")
+}</button>
+  <input id="input-import" type="file" accept=".json,application/json" style="display:none;">
 `;
 saveLoadDiv.style.position = "fixed";
 saveLoadDiv.style.bottom = "20px";
@@ -581,53 +1890,857 @@ saveLoadDiv.style.zIndex = "1000";
 document.body.appendChild(saveLoadDiv);
 
 // New Game function
-function startNewGame(): void {
-  if (!confirm("Start a new game? This will erase all current progress.")) {
-    return;
-  }
+async function startNewGame(
+  config: GameConfig = engine.getConfig(),
+): Promise<void> {
+  if (!requireActiveTab()) return;
+  const slotName = saveSlots.getActiveSlot().name;
+  const confirmed = await confirmDialog(
+    t("newGame.confirm", { slot: slotName }),
+    t("newGame.confirmButton"),
+  );
+  if (!confirmed) return;
 
   // Reset game state
-  playerPos.i = 0;
-  playerPos.j = 0;
-  heldToken = null;
-  cellContents.clear();
-  visitedCells.clear();
+  engine.reset(config);
+  revealAroundPlayer();
+  hideSummary();
+  journal.add("save", t("journal.newGame", { mode: MODE_NAMES[config.mode] }));
 
-  // Clear localStorage
+  // Clear the active slot's save, after any save still under way
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    await saving;
+    await saveSlots.clearSlot();
+    renderSlotPanel();
   } catch (error) {
-    console.error("Failed to clear localStorage:", error);
+    console.error("Failed to clear saved game:", error);
   }
 
   // Reset UI
   redrawGrid();
   updateHud();
 
-  const center = gridToLatLngBounds(playerPos.i, playerPos.j).getCenter();
-  map.panTo(center);
+  const { i, j } = engine.getPlayerPos();
+  map.panTo(gridToLatLngBounds(i, j).getCenter());
 
-  alert("New game started! Fresh adventure begins! 🌟");
+  showToast(
+    t("newGame.started", {
+      mode: MODE_NAMES[config.mode],
+      goal: describeGoal(config),
+    }),
+    "success",
+  );
 }
 
 // Add the New Game button event listener
 document.getElementById("btn-new-game")!.addEventListener(
   "click",
-  startNewGame,
+  () => startNewGame(),
 );
 
 // Update the existing save/load button handlers to show appropriate messages
 document.getElementById("btn-save")!.addEventListener("click", () => {
-  saveState();
+  if (requireActiveTab()) {
+    saveState(t("journal.saved", { slot: saveSlots.getActiveSlot().name }));
+  }
+});
+
+document.getElementById("btn-load")!.addEventListener("click", async () => {
+  await saving;
+  loadState((await saveSlots.read()).game);
+  journal.add("save", t("journal.reloaded"));
 });
 
-document.getElementById("btn-load")!.addEventListener("click", () => {
-  loadState();
+// Export / Import save files
+document.getElementById("btn-export")!.addEventListener("click", () => {
+  exportSaveFile(engine.toMemento());
+  journal.add("save", t("journal.exported"));
 });
 
+const importInput = document.getElementById(
+  "input-import",
+) as HTMLInputElement;
+document.getElementById("btn-import")!.addEventListener("click", () => {
+  importInput.click();
+});
+importInput.addEventListener("change", async () => {
+  const file = importInput.files?.[0];
+  importInput.value = "";
+  if (!file || !requireActiveTab()) return;
+
+  const source = t("source.saveFile", { file: file.name });
+  if (applyLoadedState(await importSaveFile(file), source)) {
+    saveState(t("journal.imported", { file: file.name }));
+    console.log(`Imported save file ${file.name}`);
+  }
+});
+
+// Share a link with the save compressed into the URL fragment
+document.getElementById("btn-share")!.addEventListener("click", async () => {
+  let link: string;
+  try {
+    link = await createSaveLink(engine.toMemento());
+  } catch (error) {
+    // e.g. no CompressionStream in this browser
+    console.error("Failed to create save link:", error);
+    showToast(t("share.failed"), "error");
+    return;
+  }
+  try {
+    await navigator.clipboard.writeText(link);
+    showToast(t("share.copied"), "success");
+  } catch {
+    promptDialog(t("share.prompt"), link);
+  }
+});
+
+// === Stats & Achievements Panel ===
+const statsPanel = document.createElement("div");
+statsPanel.id = "statsPanel";
+statsPanel.style.display = "none";
+document.body.appendChild(statsPanel);
+saveLoadDiv.querySelector("#btn-slots")!.insertAdjacentHTML(
+  "afterend",
+  `<button id="btn-stats" style="font-size:14px;margin:4px;">${
+    t("button.stats")
+  }</button>`,
+);
+
+document.getElementById("btn-stats")!.addEventListener("click", () => {
+  const hidden = statsPanel.style.display === "none";
+  statsPanel.style.display = hidden ? "block" : "none";
+  if (hidden) renderStatsPanel();
+});
+
+function renderStatsPanel(): void {
+  if (statsPanel.style.display === "none") return;
+  const stats = statsTracker.getStats();
+  const moves = Object.entries(stats.movesByController)
+    .map(([type, count]) =>
+      `${CONTROLLER_NAMES[type as ControllerType]}: ${formatNumber(count)}`
+    ).join(", ") || t("stats.noneYet");
+  const merges = Object.entries(stats.mergesByTier)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([value, count]) =>
+      `${formatNumber(Number(value))}: ${formatNumber(count)}`
+    ).join(", ") || t("stats.noneYet");
+  const km = formatNumber(stats.metersWalked / 1000, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+  statsPanel.innerHTML = `<h3>${t("stats.title")}</h3>`;
+  const list = document.createElement("dl");
+  [
+    [t("stats.cellsVisited"), formatNumber(stats.visitedCells.getCount())],
+    [t("stats.cellsExplored"), formatNumber(explored.getCount())],
+    [t("stats.moves"), moves],
+    [t("stats.walked"), t("stats.km", { km })],
+    [t("stats.merges"), merges],
+    [
+      t("stats.highest"),
+      stats.highestTokenEver ? formatNumber(stats.highestTokenEver) : "—",
+    ],
+    [t("stats.playTime"), formatDuration(stats.playTimeMs)],
+  ].forEach(([term, value]) => {
+    list.appendChild(document.createElement("dt")).textContent = term;
+    list.appendChild(document.createElement("dd")).textContent = value;
+  });
+  statsPanel.appendChild(list);
+
+  statsPanel.appendChild(document.createElement("h3")).textContent = t(
+    "stats.achievements",
+  );
+  ACHIEVEMENTS.forEach((achievement) => {
+    const unlockedAt = stats.achievements[achievement.id];
+    const row = document.createElement("div");
+    row.className = unlockedAt ? "achievement unlocked" : "achievement";
+    row.textContent = `${
+      unlockedAt ? "🏆" : "🔒"
+    } ${achievement.name} — ${achievement.description}`;
+    if (unlockedAt) {
+      row.title = t("stats.unlockedAt", { date: formatDateTime(unlockedAt) });
+    }
+    statsPanel.appendChild(row);
+  });
+}
+
+function announceAchievements(): void {
+  statsTracker.checkAchievements().forEach((achievement) => {
+    showToast(
+      t("achievement.unlocked", { name: achievement.name }),
+      "success",
+    );
+  });
+  renderStatsPanel();
+}
+
+// === Exploration View: the explored area, zoomed out ===
+// Gameplay stays locked at zoom 19; the overview unlocks zooming out and
+// swaps the cell grid for the exploration layer until the player goes
+// back, which returns to their cell
+const EXPLORE_MIN_ZOOM = 13;
+const explorationLayer = new ExplorationLayer(gridSource, explored);
+explorationLayer.setPalette(palette);
+const exploreZoomControl = leaflet.control.zoom({ position: "bottomleft" });
+let exploring = false;
+buttonDiv.insertAdjacentHTML(
+  "beforeend",
+  `<button id="btn-explore" title="${
+    t("button.explore")
+  }" aria-pressed="false" style="font-size:16px;margin-top:8px;">🗺️</button>`,
+);
+
+const exploreButton = document.getElementById("btn-explore")!;
+exploreButton.addEventListener("click", () => setExploring(!exploring));
+
+function setExploring(on: boolean): void {
+  exploring = on;
+  exploreButton.setAttribute("aria-pressed", String(on));
+  exploreButton.title = t(on ? "button.backToPlay" : "button.explore");
+  if (on) {
+    // Empty range: the grid's cells are all removed
+    gridRenderer.render({ minI: 0, maxI: -1, minJ: 0, maxJ: -1 });
+    explorationLayer.addTo(map);
+    exploreZoomControl.addTo(map);
+    map.scrollWheelZoom.enable();
+    map.setMinZoom(EXPLORE_MIN_ZOOM);
+    const area = explored.getBounds();
+    if (area) {
+      const south = gridToLatLngBounds(area.minI, area.minJ);
+      const north = gridToLatLngBounds(area.maxI, area.maxJ);
+      map.fitBounds(south.extend(north), { maxZoom: 17 });
+    }
+    return;
+  }
+
+  explorationLayer.remove();
+  exploreZoomControl.remove();
+  map.scrollWheelZoom.disable();
+  const { i, j } = engine.getPlayerPos();
+  map.setView(gridToLatLngBounds(i, j).getCenter(), 19, { animate: false });
+  map.setMinZoom(19);
+  redrawGrid();
+}
+
+// === Activity Journal Panel ===
+const journalPanel = document.createElement("div");
+journalPanel.id = "journalPanel";
+journalPanel.style.display = "none";
+document.body.appendChild(journalPanel);
+saveLoadDiv.querySelector("#btn-stats")!.insertAdjacentHTML(
+  "afterend",
+  `<button id="btn-journal" style="font-size:14px;margin:4px;">${
+    t("button.journal")
+  }</button>`,
+);
+
+document.getElementById("btn-journal")!.addEventListener("click", () => {
+  const hidden = journalPanel.style.display === "none";
+  journalPanel.style.display = hidden ? "block" : "none";
+  if (hidden) renderJournalPanel();
+});
+
+// Categories shown in the journal panel
+const journalFilter = new Set(
+  Object.keys(JOURNAL_CATEGORIES) as JournalCategory[],
+);
+
+function renderJournalPanel(): void {
+  if (journalPanel.style.display === "none") return;
+  journalPanel.innerHTML = `<h3>${t("journal.title")}</h3>`;
+
+  const filters = document.createElement("div");
+  filters.className = "journal-filters";
+  Object.entries(JOURNAL_CATEGORIES).forEach(([category, name]) => {
+    const label = document.createElement("label");
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.checked = journalFilter.has(category as JournalCategory);
+    checkbox.addEventListener("change", () => {
+      if (checkbox.checked) {
+        journalFilter.add(category as JournalCategory);
+      } else {
+        journalFilter.delete(category as JournalCategory);
+      }
+      renderJournalPanel();
+    });
+    label.append(checkbox, name);
+    filters.appendChild(label);
+  });
+  journalPanel.appendChild(filters);
+
+  const entries = journal.getEntries(journalFilter);
+  if (entries.length === 0) {
+    journalPanel.appendChild(document.createElement("p")).textContent = t(
+      "journal.empty",
+    );
+  }
+  entries.forEach((entry) => {
+    const row = document.createElement("div");
+    row.className = `journal-entry journal-${entry.category}`;
+    const time = document.createElement("time");
+    time.dateTime = new Date(entry.time).toISOString();
+    time.textContent = formatDateTime(entry.time);
+    row.append(time, ` ${entry.message}`);
+    journalPanel.appendChild(row);
+  });
+}
+
+// Long press on a cell: everything the journal remembers about it
+function showCellHistory(i: number, j: number): void {
+  const history = journal.getCellHistory(i, j);
+  const taken = history.flatMap((entry) => entry.taken ?? []);
+  const left = history.flatMap((entry) => entry.left ?? []);
+  const values = (tokens: number[]) =>
+    tokens.map((token) => formatNumber(token)).join(", ") ||
+    t("cellHistory.nothing");
+  const lines = history.length === 0 ? [t("cellHistory.empty")] : [
+    t("cellHistory.taken", { values: values(taken) }),
+    t("cellHistory.left", { values: values(left) }),
+    "",
+    ...history.map((entry) =>
+      `${formatDateTime(entry.time)} — ${entry.message}`
+    ),
+  ];
+  messageDialog(
+    lines.join("\n"),
+    t("cellHistory.title", { pos: `(${i}, ${j})` }),
+  );
+}
+
+// Play time only counts while the game is on screen
+setInterval(() => {
+  if (document.visibilityState !== "visible" || isSpectating()) return;
+  statsTracker.recordPlayTime(1000);
+  announceAchievements();
+}, 1000);
+// Keep play time and walked distance when the page is closed between saves
+document.addEventListener("visibilitychange", () => {
+  if (document.visibilityState === "hidden") saveState();
+});
+
+// === Save Slots Panel ===
+const slotPanel = document.createElement("div");
+slotPanel.id = "slotPanel";
+slotPanel.style.display = "none";
+document.body.appendChild(slotPanel);
+
+document.getElementById("btn-slots")!.addEventListener("click", () => {
+  const hidden = slotPanel.style.display === "none";
+  slotPanel.style.display = hidden ? "block" : "none";
+  if (hidden) renderSlotPanel();
+});
+
+function renderSlotPanel(): void {
+  if (slotPanel.style.display === "none") return;
+  const activeId = saveSlots.getActiveSlot().id;
+
+  slotPanel.innerHTML = `<h3>${t("slots.title")}</h3>`;
+  saveSlots.listSlots().forEach((slot) => {
+    const row = document.createElement("div");
+    row.className = "slot-row";
+    const updated = slot.updatedAt
+      ? formatDateTime(slot.updatedAt)
+      : t("slots.neverSaved");
+    const info = document.createElement("div");
+    info.textContent = `${slot.id === activeId ? "▶ " : ""}${slot.name}`;
+    const details = document.createElement("small");
+    details.textContent = ` ${
+      t("slots.details", {
+        updated,
+        pos: `(${slot.playerPos.i}, ${slot.playerPos.j})`,
+        best: slot.highestToken || "—",
+      })
+    }`;
+    info.appendChild(details);
+    row.appendChild(info);
+
+    row.appendChild(slotButton(t("slots.play"), () => switchSlot(slot.id)));
+    row.appendChild(slotButton(t("slots.rename"), async () => {
+      const name = await promptDialog(t("slots.renamePrompt"), slot.name);
+      if (!name) return;
+      await saveSlots.renameSlot(slot.id, name);
+      renderSlotPanel();
+      updateHud();
+    }));
+    row.appendChild(slotButton(t("slots.duplicate"), async () => {
+      const name = await promptDialog(
+        t("slots.copyPrompt"),
+        t("slots.copyName", { name: slot.name }),
+      );
+      if (!name) return;
+      if (slot.id === activeId) await saveState();
+      await saveSlots.duplicateSlot(slot.id, name);
+      renderSlotPanel();
+    }));
+    row.appendChild(slotButton(t("slots.delete"), async () => {
+      if (saveSlots.listSlots().length === 1) {
+        showToast(t("slots.deleteOnly"), "error");
+        return;
+      }
+      const confirmed = await confirmDialog(
+        t("slots.deleteConfirm", { name: slot.name }),
+        t("slots.delete"),
+      );
+      if (!confirmed) return;
+      await saveSlots.deleteSlot(slot.id);
+      if (slot.id === activeId) await loadActiveSlot();
+      renderSlotPanel();
+    }));
+    slotPanel.appendChild(row);
+  });
+
+  slotPanel.appendChild(slotButton(t("slots.new"), async () => {
+    const name = await promptDialog(
+      t("slots.newPrompt"),
+      t("slots.defaultName", { number: saveSlots.listSlots().length + 1 }),
+    );
+    if (!name) return;
+    await switchSlot((await saveSlots.createSlot(name)).id);
+  }));
+
+  // Where saves are kept and how full that is
+  const usage = document.createElement("p");
+  usage.className = "storage-usage";
+  slotPanel.appendChild(usage);
+  describeStorageUsage().then((text) => {
+    usage.textContent = t("storage.location", {
+      storage: STORAGE_NAMES[gameStorage.kind],
+      usage: text,
+    });
+  }).catch((error) => console.error("Failed to estimate storage:", error));
+}
+
+// Slot changes are saves too, so only the active tab can make them, and
+// they fail the way saves do
+function slotButton(
+  label: string,
+  onClick: () => Promise<void>,
+): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.addEventListener("click", async () => {
+    if (!requireActiveTab()) return;
+    try {
+      await onClick();
+    } catch (error) {
+      console.error(`Save slot action "${label}" failed:`, error);
+      showToast(await describeSaveFailure(error), "error");
+    }
+  });
+  return button;
+}
+
+// Save the current slot, then play another one
+async function switchSlot(id: string): Promise<void> {
+  await saveState();
+  await saveSlots.setActiveSlot(id);
+  await loadActiveSlot();
+  renderSlotPanel();
+}
+
+// Show the active slot's game, or a fresh one if it was never saved
+async function loadActiveSlot(): Promise<void> {
+  const data = await saveSlots.read();
+  statsTracker.load(parseStats(data.stats));
+  journal.load(parseJournal(data.journal));
+  explored.load(readExploredArea(data.explored));
+  renderJournalPanel();
+  engine.reset();
+  revealAroundPlayer();
+  redrawGrid();
+  updateHud();
+  const { i, j } = engine.getPlayerPos();
+  map.panTo(gridToLatLngBounds(i, j).getCenter());
+  loadState(data.game);
+}
+
+// === Tab Sync: spectate while another tab is playing ===
+const spectatorBanner = document.createElement("div");
+spectatorBanner.id = "spectatorBanner";
+spectatorBanner.style.display = "none";
+spectatorBanner.innerHTML = `
+  ${t("spectator.banner")}
+  <button id="btn-take-over">${t("spectator.playHere")}</button>
+`;
+document.body.appendChild(spectatorBanner);
+
+const tabSync = new TabSync({ onRoleChange });
+gameStorage.watch(onStorageChange);
+document.getElementById("btn-take-over")!.addEventListener(
+  "click",
+  () => tabSync.takeOver(),
+);
+
+function isSpectating(): boolean {
+  return tabSync.getRole() === "spectator";
+}
+
+// Guard for actions that change saves; explains why nothing happened
+function requireActiveTab(): boolean {
+  if (!isSpectating()) return true;
+  showToast(t("spectator.blocked"));
+  return false;
+}
+
+// Either way the other tab saved last, so start from its progress; a tab
+// that was taken over first saves what it hadn't yet
+function onRoleChange(role: TabRole): void {
+  engine.setReadOnly(role === "spectator");
+  spectatorBanner.style.display = role === "spectator" ? "block" : "none";
+  const flushed = role === "spectator" ? flushAutoSave() : Promise.resolve();
+  flushed.then(followSaves);
+}
+
+// A save changes several keys, which other tabs hear about one by one;
+// reload once they have all arrived
+let followTimer: ReturnType<typeof setTimeout> | null = null;
+function onStorageChange(key: string): void {
+  if (!isSpectating() || !isSaveKey(key)) return;
+  if (followTimer !== null) clearTimeout(followTimer);
+  followTimer = setTimeout(followSaves, 100);
+}
+
+async function followSaves(): Promise<void> {
+  followTimer = null;
+  try {
+    await saveSlots.reloadIndex();
+    await loadActiveSlot();
+  } catch (error) {
+    console.error("Failed to follow saves:", error);
+    showToast(t("load.failed"), "error");
+    return;
+  }
+  renderSlotPanel();
+  renderStatsPanel();
+}
+
+// === Game Settings Screen ===
+const settingsPanel = document.createElement("div");
+settingsPanel.id = "settingsPanel";
+settingsPanel.style.display = "none";
+settingsPanel.innerHTML = `
+  <h3>${t("settings.title")}</h3>
+  <label>${t("settings.mode")}
+    <select id="setting-mode">
+      ${
+  Object.entries(MODE_NAMES).map(([id, name]) =>
+    `<option value="${id}">${name}</option>`
+  ).join("")
+}
+    </select>
+  </label>
+  <label>${
+  t("settings.target")
+} <input id="setting-target" type="number" min="2"></label>
+  <label>${
+  t("settings.minutes")
+} <input id="setting-minutes" type="number" min="1"></label>
+  <label>${
+  t("settings.steps")
+} <input id="setting-steps" type="number" min="1"></label>
+  <label>${t("settings.regen")}
+    <input id="setting-regen" type="number" min="1">
+  </label>
+  <label>${t("settings.seed")}
+    <input id="setting-seed" placeholder="${
+  t("settings.seedPlaceholder")
+}" size="10">
+    <button id="btn-seed-random" title="${t("settings.seedRandom")}">🎲</button>
+    <button id="btn-seed-share" title="${t("settings.seedShare")}">🔗</button>
+  </label>
+  <label>${t("settings.origin")}
+    <select id="setting-origin">
+      <option value="nullIsland">${t("settings.origin.nullIsland")}</option>
+      <option value="start">${t("settings.origin.start")}</option>
+    </select>
+  </label>
+  <label>${t("settings.regions")}
+    <input id="setting-regions" type="file" accept=".geojson,.json">
+    <span id="setting-regions-info"></span>
+  </label>
+  <p id="setting-goal"></p>
+  <button id="btn-settings-start">${t("settings.start")}</button>
+  <button id="btn-settings-close">${t("settings.close")}</button>
+`;
+document.body.appendChild(settingsPanel);
+saveLoadDiv.insertAdjacentHTML(
+  "afterbegin",
+  `<button id="btn-settings" style="font-size:14px;margin:4px;">${
+    t("button.settings")
+  }</button>`,
+);
+
+const settingMode = document.getElementById(
+  "setting-mode",
+) as HTMLSelectElement;
+const settingTarget = document.getElementById(
+  "setting-target",
+) as HTMLInputElement;
+const settingMinutes = document.getElementById(
+  "setting-minutes",
+) as HTMLInputElement;
+const settingSteps = document.getElementById(
+  "setting-steps",
+) as HTMLInputElement;
+const settingSeed = document.getElementById(
+  "setting-seed",
+) as HTMLInputElement;
+const settingRegen = document.getElementById(
+  "setting-regen",
+) as HTMLInputElement;
+const settingOrigin = document.getElementById(
+  "setting-origin",
+) as HTMLSelectElement;
+const settingRegions = document.getElementById(
+  "setting-regions",
+) as HTMLInputElement;
+// Regions for the next game: the current game's until a file is picked
+let settingRegionList: SpawnRegion[] = [];
+
+// Fill the form from a config, showing only the fields its mode uses
+function showSettings(config: GameConfig): void {
+  settingMode.value = config.mode;
+  settingTarget.value = `${config.winValue}`;
+  settingMinutes.value = `${config.timeLimitMinutes ?? ""}`;
+  settingSteps.value = `${config.stepLimit ?? ""}`;
+  settingSeed.value = config.seed;
+  settingRegen.value = `${config.regenerationMinutes ?? ""}`;
+  settingOrigin.value = config.spawn.origin;
+  settingRegionList = config.spawn.regions;
+  showRegionInfo();
+  settingTarget.parentElement!.style.display = config.mode === "timeAttack"
+    ? "none"
+    : "block";
+  settingMinutes.parentElement!.style.display = config.mode === "timeAttack"
+    ? "block"
+    : "none";
+  settingSteps.parentElement!.style.display = config.mode === "stepLimit"
+    ? "block"
+    : "none";
+  document.getElementById("setting-goal")!.textContent = describeGoal(config);
+}
+
+function readSettings(): GameConfig {
+  const mode = isModeId(settingMode.value) ? settingMode.value : "classic";
+  const config = { ...PRESETS[mode] };
+  const target = Number(settingTarget.value);
+  if (Number.isInteger(target) && target > 1) config.winValue = target;
+  const minutes = Number(settingMinutes.value);
+  if (config.timeLimitMinutes !== null && minutes > 0) {
+    config.timeLimitMinutes = minutes;
+  }
+  const steps = Number(settingSteps.value);
+  if (config.stepLimit !== null && Number.isInteger(steps) && steps > 0) {
+    config.stepLimit = steps;
+  }
+  config.seed = settingSeed.value.trim();
+  const regen = Number(settingRegen.value);
+  config.regenerationMinutes = settingRegen.value && regen > 0 ? regen : null;
+  config.spawn = {
+    ...config.spawn,
+    origin: settingOrigin.value === "start" ? "start" : "nullIsland",
+    regions: settingRegionList,
+  };
+  return config;
+}
+
+document.getElementById("btn-settings")!.addEventListener("click", () => {
+  showSettings(engine.getConfig());
+  settingsPanel.style.display = "block";
+});
+settingMode.addEventListener("change", () => {
+  const preset =
+    PRESETS[isModeId(settingMode.value) ? settingMode.value : "classic"];
+  showSettings({
+    ...preset,
+    seed: settingSeed.value.trim(),
+    spawn: {
+      ...preset.spawn,
+      origin: settingOrigin.value === "start" ? "start" : "nullIsland",
+      regions: settingRegionList,
+    },
+  });
+});
+
+function showRegionInfo(): void {
+  document.getElementById("setting-regions-info")!.textContent =
+    settingRegionList.length > 0
+      ? settingRegionList.map((region) => region.name).join(", ")
+      : t("settings.regionsNone");
+}
+
+settingRegions.addEventListener("change", async () => {
+  const file = settingRegions.files?.[0];
+  settingRegions.value = "";
+  if (!file) return;
+  try {
+    settingRegionList = parseRegions(await file.text());
+    showRegionInfo();
+  } catch (error) {
+    showToast(
+      t("settings.regionsFailed", { error: (error as Error).message }),
+      "error",
+    );
+  }
+});
+document.getElementById("btn-seed-random")!.addEventListener("click", () => {
+  settingSeed.value = randomSeed();
+});
+
+// Link that starts this mode and world for whoever opens it (?seed=...)
+document.getElementById("btn-seed-share")!.addEventListener(
+  "click",
+  async () => {
+    const config = readSettings();
+    const url = new URL(globalThis.location.href);
+    url.hash = "";
+    url.searchParams.set("mode", config.mode);
+    url.searchParams.set("seed", config.seed);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      showToast(t("settings.worldCopied"), "success");
+    } catch {
+      promptDialog(t("settings.worldPrompt"), url.toString());
+    }
+  },
+);
+[settingTarget, settingMinutes, settingSteps].forEach((input) => {
+  input.addEventListener("change", () => showSettings(readSettings()));
+});
+document.getElementById("btn-settings-start")!.addEventListener(
+  "click",
+  () => {
+    settingsPanel.style.display = "none";
+    startNewGame(readSettings());
+  },
+);
+document.getElementById("btn-settings-close")!.addEventListener(
+  "click",
+  () => settingsPanel.style.display = "none",
+);
+
+// === End-of-Game Summary Screen ===
+const summaryScreen = document.createElement("div");
+summaryScreen.id = "summaryScreen";
+summaryScreen.style.display = "none";
+document.body.appendChild(summaryScreen);
+
+const OUTCOME_TITLES: Record<GameResult["outcome"], string> = {
+  won: t("outcome.won"),
+  timeUp: t("outcome.timeUp"),
+  outOfSteps: t("outcome.outOfSteps"),
+};
+
+function showSummary(result: GameResult): void {
+  summaryScreen.innerHTML = `
+    <div class="summary-card">
+      <h2>${OUTCOME_TITLES[result.outcome]}</h2>
+      <p>${describeGame()}</p>
+      <table>
+        <tr><td>${t("summary.highest")}</td><td>${
+    formatNumber(result.highestToken)
+  }</td></tr>
+        <tr><td>${t("summary.moves")}</td><td>${
+    formatNumber(result.moves)
+  }</td></tr>
+        <tr><td>${t("summary.time")}</td><td>${
+    formatDuration(result.elapsedMs)
+  }</td></tr>
+      </table>
+      <button id="btn-summary-new">${t("summary.playAgain")}</button>
+      <button id="btn-summary-close">${t("summary.keepExploring")}</button>
+    </div>
+  `;
+  summaryScreen.style.display = "flex";
+  document.getElementById("btn-summary-new")!.addEventListener(
+    "click",
+    () => startNewGame(),
+  );
+  document.getElementById("btn-summary-close")!.addEventListener(
+    "click",
+    hideSummary,
+  );
+}
+
+function hideSummary(): void {
+  summaryScreen.style.display = "none";
+}
+
+// Time Attack clock: refresh the countdown and end the game on time
+setInterval(() => {
+  if (engine.getTimeLeftMs() === null || engine.getResult()) return;
+  handleGameEvents(engine.checkTime());
+  updateHud();
+}, 1000);
+
+// Regeneration: tick the countdowns on recharging cells, and show tokens as
+// they grow back. Only those cells are refreshed; the cell list waits for
+// the next real change, so its focus and reading position stay put.
+let rechargingCells = new Set<string>();
+setInterval(() => {
+  if (engine.getConfig().regenerationMinutes === null) return;
+  const recharging = new Set<string>();
+  let regrown = false;
+  engine.getEmptiedCells().forEach(({ i, j }) => {
+    const key = cellKey(i, j);
+    if (engine.getRegenerationTimeLeft(i, j) !== null) {
+      recharging.add(key);
+    } else if (rechargingCells.has(key)) {
+      regrown = true;
+    } else {
+      return;
+    }
+    if (!exploring) refreshCell(i, j);
+  });
+  rechargingCells = recharging;
+  if (exploring && regrown) explorationLayer.render();
+}, 1000);
+
+// Load a save shared through a link, then drop it from the address bar so a
+// reload doesn't overwrite later progress
+async function loadSaveLink(): Promise<void> {
+  const result = await readSaveLink(globalThis.location.hash);
+  // A spectator keeps the link in the address bar to load after taking over
+  if (!result || !requireActiveTab()) return;
+
+  history.replaceState(
+    null,
+    "",
+    globalThis.location.pathname + globalThis.location.search,
+  );
+  const confirmed = await confirmDialog(
+    t("link.confirm"),
+    t("link.confirmButton"),
+  );
+  if (!confirmed) return;
+  if (applyLoadedState(result, t("source.saveLink"))) {
+    saveState(t("journal.linkLoaded"));
+  }
+}
+
 initializeMovementController();
 
 // Initial setup
-loadState();
+loadState(savedSlotData.game);
+const startPos = engine.getPlayerPos();
+statsTracker.recordVisit(startPos);
+revealAroundPlayer();
 redrawGrid();
 updateHud();
+tabSync.start().then(() => loadSaveLink()).catch((error) => {
+  console.error("Failed to load save link:", error);
+  showToast(t("link.failed"), "error");
+});
+warnIfStorageNearlyFull().catch((error) =>
+  console.error("Failed to estimate storage:", error)
+);
+
+// A ?mode= or ?seed= link can't replace the saved game on its own; say
+// so and offer to start the linked game instead
+if (urlConfig && !sameUrlRules(urlConfig, engine.getConfig())) {
+  showToast(t("link.configIgnored"), "warning");
+  showSettings(urlConfig);
+  settingsPanel.style.display = "block";
+}
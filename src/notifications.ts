@@ -0,0 +1,260 @@
+// === Notifications: non-blocking toasts and modal dialogs ===
+// Replaces alert()/confirm()/prompt(), which freeze the page (and with it
+// GPS updates). Toasts stack at the top and fade on their own; dialogs
+// are queued and shown one at a time, resolving a Promise when answered.
+import { t } from "./i18n.ts";
+
+export type ToastKind = "info" | "success" | "warning" | "error";
+
+export interface DialogButton<T> {
+  label: string;
+  value: T;
+  primary?: boolean;
+}
+
+export interface DialogOptions<T> {
+  title?: string;
+  message: string;
+  buttons: DialogButton<T>[];
+  // Returned for Escape or a click outside the dialog
+  cancelValue: T;
+  // Show a text field prefilled with this value
+  input?: string;
+}
+
+const TOAST_DURATION_MS = 4000;
+const MAX_VISIBLE_TOASTS = 3;
+
+interface Toast {
+  message: string;
+  kind: ToastKind;
+  durationMs: number;
+  element: HTMLElement | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const visibleToasts: Toast[] = [];
+const waitingToasts: Toast[] = [];
+let toastContainer: HTMLElement | null = null;
+
+// Show a message briefly; the same message again while it's still showing
+// just restarts its timer instead of stacking a copy
+export function showToast(
+  message: string,
+  kind: ToastKind = "info",
+  durationMs: number = TOAST_DURATION_MS,
+): void {
+  const showing = visibleToasts.find((toast) => toast.message === message);
+  if (showing) {
+    startToastTimer(showing);
+    return;
+  }
+  if (waitingToasts.some((toast) => toast.message === message)) return;
+
+  waitingToasts.push({ message, kind, durationMs, element: null, timer: null });
+  showWaitingToasts();
+}
+
+function showWaitingToasts(): void {
+  while (visibleToasts.length < MAX_VISIBLE_TOASTS && waitingToasts.length) {
+    const toast = waitingToasts.shift()!;
+    const element = document.createElement("div");
+    element.className = `toast toast-${toast.kind}`;
+    element.setAttribute("role", toast.kind === "error" ? "alert" : "status");
+    element.textContent = toast.message;
+
+    const close = document.createElement("button");
+    close.className = "toast-close";
+    close.textContent = "×";
+    close.setAttribute("aria-label", t("toast.dismiss"));
+    close.addEventListener("click", () => dismissToast(toast));
+    element.appendChild(close);
+
+    toast.element = element;
+    getToastContainer().appendChild(element);
+    visibleToasts.push(toast);
+    startToastTimer(toast);
+  }
+}
+
+function startToastTimer(toast: Toast): void {
+  if (toast.timer !== null) clearTimeout(toast.timer);
+  toast.timer = setTimeout(() => dismissToast(toast), toast.durationMs);
+}
+
+function dismissToast(toast: Toast): void {
+  const index = visibleToasts.indexOf(toast);
+  if (index < 0) return;
+  visibleToasts.splice(index, 1);
+  if (toast.timer !== null) clearTimeout(toast.timer);
+  toast.element?.remove();
+  showWaitingToasts();
+}
+
+function getToastContainer(): HTMLElement {
+  if (!toastContainer) {
+    toastContainer = document.createElement("div");
+    toastContainer.id = "toastContainer";
+    document.body.appendChild(toastContainer);
+  }
+  return toastContainer;
+}
+
+// Screen reader announcement without anything on screen, for results the
+// map shows only visually. Polite waits for the reader to finish speaking.
+let liveRegion: HTMLElement | null = null;
+
+export function announce(
+  message: string,
+  politeness: "polite" | "assertive" = "polite",
+): void {
+  if (!liveRegion) {
+    liveRegion = document.createElement("div");
+    liveRegion.id = "liveRegion";
+    liveRegion.className = "visually-hidden";
+    liveRegion.setAttribute("aria-live", politeness);
+    document.body.appendChild(liveRegion);
+    // Readers skip changes to a region added in the same moment
+    setTimeout(() => announce(message, politeness), 100);
+    return;
+  }
+  liveRegion.setAttribute("aria-live", politeness);
+  // Replacing the text (even with the same text) is what gets it read
+  liveRegion.textContent = "";
+  liveRegion.textContent = message;
+}
+
+// Dialogs wait their turn behind the one on screen
+let dialogQueue: Promise<unknown> = Promise.resolve();
+
+export function showDialog<T>(options: DialogOptions<T>): Promise<T> {
+  const result = dialogQueue.then(() => openDialog(options));
+  dialogQueue = result;
+  return result;
+}
+
+// OK/Cancel question; resolves true for OK
+export function confirmDialog(
+  message: string,
+  confirmLabel: string = t("dialog.ok"),
+): Promise<boolean> {
+  return showDialog({
+    message,
+    buttons: [
+      { label: t("dialog.cancel"), value: false },
+      { label: confirmLabel, value: true, primary: true },
+    ],
+    cancelValue: false,
+  });
+}
+
+// Text question; resolves the trimmed answer, or null if cancelled
+export async function promptDialog(
+  message: string,
+  defaultValue: string = "",
+): Promise<string | null> {
+  const answer = await showDialog<string | null>({
+    message,
+    input: defaultValue,
+    buttons: [
+      { label: t("dialog.cancel"), value: null },
+      { label: t("dialog.ok"), value: "", primary: true },
+    ],
+    cancelValue: null,
+  });
+  return answer?.trim() ?? null;
+}
+
+// A message that needs reading (e.g. a list of errors) before going on
+export async function messageDialog(
+  message: string,
+  title?: string,
+): Promise<void> {
+  await showDialog({
+    ...(title === undefined ? {} : { title }),
+    message,
+    buttons: [{ label: t("dialog.ok"), value: undefined, primary: true }],
+    cancelValue: undefined,
+  });
+}
+
+function openDialog<T>(options: DialogOptions<T>): Promise<T> {
+  return new Promise((resolve) => {
+    const overlay = document.createElement("div");
+    overlay.id = "modalOverlay";
+    const dialog = document.createElement("div");
+    dialog.className = "modal";
+    dialog.setAttribute("role", "dialog");
+    dialog.setAttribute("aria-modal", "true");
+    overlay.appendChild(dialog);
+
+    if (options.title) {
+      const title = document.createElement("h3");
+      title.textContent = options.title;
+      dialog.appendChild(title);
+    }
+    const message = document.createElement("p");
+    message.textContent = options.message;
+    dialog.appendChild(message);
+
+    let input: HTMLInputElement | null = null;
+    if (options.input !== undefined) {
+      input = document.createElement("input");
+      input.value = options.input;
+      dialog.appendChild(input);
+    }
+
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const close = (value: T) => {
+      overlay.remove();
+      document.removeEventListener("keydown", onKey, true);
+      previousFocus?.focus();
+      resolve(value);
+    };
+    // The text field's answer replaces the primary button's value
+    const answer = (button: DialogButton<T>) =>
+      close(input && button.primary ? input.value as T : button.value);
+    const primary = options.buttons.find((button) => button.primary);
+
+    // Captured so the game's own key bindings don't fire underneath; other
+    // keys keep their default action, so typing and Tab still work
+    const onKey = (event: KeyboardEvent) => {
+      event.stopImmediatePropagation();
+      if (event.key === "Escape") {
+        close(options.cancelValue);
+      } else if (event.key === "Enter" && primary) {
+        answer(primary);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    document.addEventListener("keydown", onKey, true);
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) close(options.cancelValue);
+    });
+
+    const buttonRow = document.createElement("div");
+    buttonRow.className = "modal-buttons";
+    let primaryButton: HTMLButtonElement | null = null;
+    options.buttons.forEach((button) => {
+      const element = document.createElement("button");
+      element.textContent = button.label;
+      if (button.primary) {
+        element.className = "primary";
+        primaryButton = element;
+      }
+      element.addEventListener("click", () => answer(button));
+      buttonRow.appendChild(element);
+    });
+    dialog.appendChild(buttonRow);
+
+    document.body.appendChild(overlay);
+    if (input) {
+      input.focus();
+      input.select();
+    } else {
+      (primaryButton as HTMLButtonElement | null)?.focus();
+    }
+  });
+}
@@ -0,0 +1,104 @@
+// === Palettes: how cells and tokens are coloured ===
+// The default look, a high-contrast one for low vision, and one built from
+// the Okabe–Ito colours, which stay distinct under the common kinds of
+// colour blindness. Token colours cycle by tier (1, 2, 4, …) so tokens of
+// different values look different, not just read differently.
+import { t } from "./i18n.ts";
+
+export interface TokenColors {
+  background: string;
+  text: string;
+}
+
+export interface Palette {
+  id: string;
+  name: string;
+  // Colours per token tier, cycling: 1 → [0], 2 → [1], 4 → [2], …
+  tokens: TokenColors[];
+  coords: string;
+  recharging: string;
+  gridStroke: string;
+  gridWeight: number;
+  gridFill: string;
+  gridFillOpacity: number;
+  // Drawn over cells the player hasn't explored yet
+  fog: string;
+  fogOpacity: number;
+}
+
+export const PALETTES: Palette[] = [
+  {
+    id: "default",
+    name: t("palette.default"),
+    tokens: [{ background: "#f44336", text: "white" }],
+    coords: "#666",
+    recharging: "#1e88e5",
+    gridStroke: "#555",
+    gridWeight: 1,
+    gridFill: "#ffeb3b",
+    gridFillOpacity: 0.1,
+    fog: "#37474f",
+    fogOpacity: 0.55,
+  },
+  {
+    id: "highContrast",
+    name: t("palette.highContrast"),
+    tokens: [{ background: "black", text: "#ffff00" }],
+    coords: "black",
+    recharging: "#0000c0",
+    gridStroke: "black",
+    gridWeight: 2,
+    gridFill: "white",
+    gridFillOpacity: 0.6,
+    fog: "black",
+    fogOpacity: 0.8,
+  },
+  {
+    id: "colorBlind",
+    name: t("palette.colorBlind"),
+    tokens: [
+      { background: "#0072b2", text: "white" },
+      { background: "#e69f00", text: "black" },
+      { background: "#009e73", text: "white" },
+      { background: "#cc79a7", text: "black" },
+      { background: "#d55e00", text: "white" },
+      { background: "#56b4e9", text: "black" },
+    ],
+    coords: "#444",
+    recharging: "#0072b2",
+    gridStroke: "#333",
+    gridWeight: 1,
+    gridFill: "#f0e442",
+    gridFillOpacity: 0.1,
+    fog: "#333",
+    fogOpacity: 0.6,
+  },
+];
+
+const PALETTE_KEY = "coinCollectorPalette";
+
+export function tokenColors(palette: Palette, value: number): TokenColors {
+  const tier = Math.max(0, Math.round(Math.log2(value)));
+  return palette.tokens[tier % palette.tokens.length];
+}
+
+// The palette picked last time, defaulting to the default look
+export function loadPalette(storage: Storage = localStorage): Palette {
+  try {
+    const id = storage.getItem(PALETTE_KEY);
+    return PALETTES.find((palette) => palette.id === id) ?? PALETTES[0];
+  } catch {
+    return PALETTES[0];
+  }
+}
+
+export function savePalette(
+  palette: Palette,
+  storage: Storage = localStorage,
+): void {
+  try {
+    storage.setItem(PALETTE_KEY, palette.id);
+  } catch (error) {
+    console.error("Failed to save palette:", error);
+  }
+}
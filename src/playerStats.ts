@@ -0,0 +1,225 @@
+// === Player Stats: lifetime records and achievements ===
+// Stats belong to a save slot rather than a single game, so they carry on
+// across New Game; the UI feeds them from game events and controllers.
+import { decodeExploredArea, ExploredArea } from "./exploredArea.ts";
+import type { GridPos } from "./gameEngine.ts";
+import { t } from "./i18n.ts";
+
+// The kinds of movement controller moves are counted by
+export type ControllerType =
+  | "buttons"
+  | "keyboard"
+  | "gamepad"
+  | "gps"
+  | "replay";
+
+export const CONTROLLER_NAMES: Record<ControllerType, string> = {
+  buttons: t("controller.buttons"),
+  keyboard: t("controller.keyboard"),
+  gamepad: t("controller.gamepad"),
+  gps: t("controller.gps"),
+  replay: t("controller.replay"),
+};
+
+export interface PlayerStats {
+  // Every cell the player has stood on or walked through, as a bitmap so
+  // a long walk stays small; saved like the explored area
+  visitedCells: ExploredArea;
+  movesByController: Partial<Record<ControllerType, number>>;
+  // Real-world distance walked with GPS movement
+  metersWalked: number;
+  // Merges that produced each token value, keyed by the value
+  mergesByTier: Record<string, number>;
+  highestTokenEver: number;
+  playTimeMs: number;
+  // Achievement id → when it was unlocked (ms since epoch)
+  achievements: Record<string, number>;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  unlocked(stats: PlayerStats): boolean;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "firstMerge",
+    name: t("achievement.firstMerge.name"),
+    description: t("achievement.firstMerge.description"),
+    unlocked: (stats) => Object.keys(stats.mergesByTier).length > 0,
+  },
+  {
+    id: "token64",
+    name: t("achievement.token64.name"),
+    description: t("achievement.token64.description"),
+    unlocked: (stats) => stats.highestTokenEver >= 64,
+  },
+  {
+    id: "token256",
+    name: t("achievement.token256.name"),
+    description: t("achievement.token256.description"),
+    unlocked: (stats) => stats.highestTokenEver >= 256,
+  },
+  {
+    id: "visit100",
+    name: t("achievement.visit100.name"),
+    description: t("achievement.visit100.description"),
+    unlocked: (stats) => stats.visitedCells.getCount() >= 100,
+  },
+  {
+    id: "visit1000",
+    name: t("achievement.visit1000.name"),
+    description: t("achievement.visit1000.description"),
+    unlocked: (stats) => stats.visitedCells.getCount() >= 1000,
+  },
+  {
+    id: "walk1km",
+    name: t("achievement.walk1km.name"),
+    description: t("achievement.walk1km.description"),
+    unlocked: (stats) => stats.metersWalked >= 1000,
+  },
+  {
+    id: "walk10km",
+    name: t("achievement.walk10km.name"),
+    description: t("achievement.walk10km.description"),
+    unlocked: (stats) => stats.metersWalked >= 10_000,
+  },
+  {
+    id: "hour",
+    name: t("achievement.hour.name"),
+    description: t("achievement.hour.description"),
+    unlocked: (stats) => stats.playTimeMs >= 3_600_000,
+  },
+];
+
+export function emptyStats(): PlayerStats {
+  return {
+    visitedCells: new ExploredArea(),
+    movesByController: {},
+    metersWalked: 0,
+    mergesByTier: {},
+    highestTokenEver: 0,
+    playTimeMs: 0,
+    achievements: {},
+  };
+}
+
+// Reads stats saved by any build, filling in fields added since
+export function parseStats(json: string | null): PlayerStats {
+  const stats = emptyStats();
+  if (!json) return stats;
+  try {
+    const saved = JSON.parse(json);
+    stats.visitedCells = readVisitedCells(saved.visitedCells);
+    const numbers = ["metersWalked", "highestTokenEver", "playTimeMs"] as const;
+    numbers.forEach((field) => {
+      if (typeof saved[field] === "number") stats[field] = saved[field];
+    });
+    const records = [
+      "movesByController",
+      "mergesByTier",
+      "achievements",
+    ] as const;
+    records.forEach((field) => {
+      if (typeof saved[field] === "object" && saved[field] !== null) {
+        stats[field] = { ...saved[field] } as Record<string, number>;
+      }
+    });
+  } catch (error) {
+    console.error("Failed to read player stats:", error);
+  }
+  return stats;
+}
+
+// Builds before the bitmap saved a list of "i,j" keys
+function readVisitedCells(saved: unknown): ExploredArea {
+  if (!Array.isArray(saved)) {
+    return decodeExploredArea(saved) ?? new ExploredArea();
+  }
+  const area = new ExploredArea();
+  saved.forEach((key) => {
+    if (typeof key !== "string") return;
+    const [i, j] = key.split(",").map(Number);
+    if (Number.isInteger(i) && Number.isInteger(j)) area.reveal(i, j);
+  });
+  return area;
+}
+
+export class StatsTracker {
+  constructor(private stats: PlayerStats = emptyStats()) {}
+
+  getStats(): PlayerStats {
+    return { ...this.stats };
+  }
+
+  getVisitedCount(): number {
+    return this.stats.visitedCells.getCount();
+  }
+
+  // Switch to another slot's stats
+  load(stats: PlayerStats): void {
+    this.stats = stats;
+  }
+
+  recordVisit(pos: GridPos): void {
+    this.stats.visitedCells.reveal(pos.i, pos.j);
+  }
+
+  // Every cell on the straight line between two cells; a jump past
+  // MAX_REVEAL_STEPS only visits its end
+  recordPath(from: GridPos, to: GridPos): void {
+    this.stats.visitedCells.revealAlong(from, to, 0);
+  }
+
+  recordMoves(controller: ControllerType, cells: number): void {
+    const moves = this.stats.movesByController;
+    moves[controller] = (moves[controller] ?? 0) + cells;
+  }
+
+  recordWalk(meters: number): void {
+    this.stats.metersWalked += meters;
+  }
+
+  recordMerge(value: number): void {
+    const tiers = this.stats.mergesByTier;
+    tiers[value] = (tiers[value] ?? 0) + 1;
+  }
+
+  recordToken(value: number): void {
+    this.stats.highestTokenEver = Math.max(this.stats.highestTokenEver, value);
+  }
+
+  recordPlayTime(ms: number): void {
+    this.stats.playTimeMs += ms;
+  }
+
+  // Marks newly earned achievements as unlocked and returns them
+  checkAchievements(now: number = Date.now()): Achievement[] {
+    const stats = this.getStats();
+    const unlocked = ACHIEVEMENTS.filter((achievement) =>
+      !(achievement.id in this.stats.achievements) &&
+      achievement.unlocked(stats)
+    );
+    unlocked.forEach((achievement) => {
+      this.stats.achievements[achievement.id] = now;
+    });
+    return unlocked;
+  }
+}
+
+// Great-circle distance in meters between two lat/lng points
+export function distanceMeters(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number },
+): number {
+  const EARTH_RADIUS = 6_371_000;
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = radians(to.lat - from.lat);
+  const dLng = radians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(from.lat)) * Math.cos(radians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(a));
+}
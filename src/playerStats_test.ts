@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { MAX_REVEAL_STEPS } from "./exploredArea.ts";
+import { parseStats, StatsTracker } from "./playerStats.ts";
+
+Deno.test("visited cells from before the bitmap are read back", () => {
+  const stats = parseStats(JSON.stringify({
+    visitedCells: ["1,2", "-3,-4", "1,2", "x", 5],
+    metersWalked: 12,
+  }));
+  assert.equal(stats.visitedCells.getCount(), 2);
+  assert.ok(stats.visitedCells.has(-3, -4));
+  assert.equal(stats.metersWalked, 12);
+});
+
+Deno.test("visited cells survive a save as a bitmap", () => {
+  const tracker = new StatsTracker();
+  tracker.recordVisit({ i: -40, j: 7 });
+  tracker.recordPath({ i: 0, j: 0 }, { i: 3, j: 1 });
+
+  const json = JSON.stringify(tracker.getStats());
+  assert.equal(typeof JSON.parse(json).visitedCells.chunks, "object");
+  const stats = parseStats(json);
+  assert.equal(stats.visitedCells.getCount(), 5);
+  assert.ok(stats.visitedCells.has(-40, 7));
+  assert.ok(stats.visitedCells.has(2, 1));
+});
+
+Deno.test("a path visits each cell crossed, a jump only its end", () => {
+  const tracker = new StatsTracker();
+  tracker.recordPath({ i: 0, j: 0 }, { i: 0, j: 10 });
+  assert.equal(tracker.getVisitedCount(), 11);
+
+  tracker.recordPath({ i: 0, j: 10 }, { i: MAX_REVEAL_STEPS + 11, j: 10 });
+  assert.equal(tracker.getVisitedCount(), 12);
+});
+
+Deno.test("moves are counted per controller", () => {
+  const tracker = new StatsTracker();
+  tracker.recordMoves("gps", 3);
+  tracker.recordMoves("gps", 2);
+  tracker.recordMoves("keyboard", 1);
+  assert.deepEqual(tracker.getStats().movesByController, {
+    gps: 5,
+    keyboard: 1,
+  });
+});
@@ -0,0 +1,353 @@
+// === Save Format: validation and migrations ===
+// Turns raw saved JSON from any build into a current SavedGameState, or
+// reports exactly which fields are wrong.
+import { SAVE_VERSION, type SavedGameState } from "./gameEngine.ts";
+import { isModeId, PRESETS } from "./gameConfig.ts";
+import { validateSpawnTable } from "./spawnTables.ts";
+
+type RawSave = Record<string, unknown>;
+
+export type ParseResult =
+  | { ok: true; state: SavedGameState; migratedFrom: number }
+  | { ok: false; errors: string[] };
+
+// Classic as it was in v4 saves; later migrations build on these fields,
+// so this must not follow changes to PRESETS.classic
+const CLASSIC_V4 = {
+  mode: "classic",
+  winValue: 256,
+  timeLimitMinutes: null,
+  stepLimit: null,
+  interactionRange: 3,
+  gridSize: 5,
+  inventorySize: 4,
+  spawnProbability: 0.5,
+  spawnValues: [{ value: 1, weight: 0.7 }, { value: 2, weight: 0.3 }],
+};
+
+// Each migration upgrades a save from version N (its key) to N + 1
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // 0: unversioned saves from before the save format had a version field
+  0: (save) => {
+    const cellContents: Record<string, unknown> = {};
+    if (isObject(save.cellContents)) {
+      // old builds skipped non-numeric cells instead of rejecting the save
+      Object.entries(save.cellContents).forEach(([key, value]) => {
+        if (typeof value === "number") cellContents[key] = value;
+      });
+    }
+    return {
+      ...save,
+      version: 1,
+      heldToken: save.heldToken ?? null,
+      cellContents,
+    };
+  },
+  // 1: before undo/redo history was saved
+  1: (save) => ({ ...save, version: 2, history: { undo: [], redo: [] } }),
+  // 2: a single heldToken instead of an inventory; history commands had no slot
+  2: ({ heldToken, ...save }) => {
+    const withSlot = (command: unknown) =>
+      isObject(command) && command.type !== "moved"
+        ? { ...command, slot: 0 }
+        : command;
+    const history = isObject(save.history) ? save.history : {};
+    return {
+      ...save,
+      version: 3,
+      inventory: [heldToken ?? null],
+      activeSlot: 0,
+      history: {
+        undo: Array.isArray(history.undo) ? history.undo.map(withSlot) : [],
+        redo: Array.isArray(history.redo) ? history.redo.map(withSlot) : [],
+      },
+    };
+  },
+  // 3: before game modes; every game was Classic and nothing was tracked
+  3: (save) => {
+    const inventory = Array.isArray(save.inventory) ? save.inventory : [];
+    const cells = isObject(save.cellContents)
+      ? Object.values(save.cellContents)
+      : [];
+    const tokens = [...inventory, ...cells].filter(isToken);
+    return {
+      ...save,
+      version: 4,
+      config: {
+        ...CLASSIC_V4,
+        inventorySize: Math.max(CLASSIC_V4.inventorySize, inventory.length),
+      },
+      moveCount: 0,
+      highestToken: Math.max(0, ...tokens),
+      startedAt: Date.now(),
+      result: null,
+    };
+  },
+  // 4: before world seeds; every game was in the shared world (seed "")
+  4: (save) => ({
+    ...save,
+    version: 5,
+    config: isObject(save.config) ? { ...save.config, seed: "" } : save.config,
+  }),
+  // 5: a flat spawnProbability and spawnValues instead of a spawn table;
+  // the start was always Null Island
+  5: (save) => {
+    if (!isObject(save.config)) return { ...save, version: 6 };
+    const { spawnProbability, spawnValues, ...config } = save.config;
+    return {
+      ...save,
+      version: 6,
+      startPos: { i: 0, j: 0 },
+      config: {
+        ...config,
+        spawn: {
+          probability: spawnProbability,
+          values: spawnValues,
+          origin: "nullIsland",
+          regions: [],
+        },
+      },
+    };
+  },
+  // 6: before regeneration; emptied cells stayed empty forever
+  6: (save) => ({
+    ...save,
+    version: 7,
+    emptiedAt: {},
+    config: isObject(save.config)
+      ? { ...save.config, regenerationMinutes: null }
+      : save.config,
+  }),
+  // 7: before revisions; nothing detected saves from other tabs
+  7: (save) => ({ ...save, version: 8, revision: 0 }),
+};
+
+export function parseSave(json: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { ok: false, errors: ["save is not valid JSON"] };
+  }
+  return migrateSave(raw);
+}
+
+export function migrateSave(raw: unknown): ParseResult {
+  if (!isObject(raw)) {
+    return { ok: false, errors: ["save must be a JSON object"] };
+  }
+
+  const migratedFrom = raw.version === undefined ? 0 : raw.version;
+  if (!isInteger(migratedFrom) || migratedFrom < 0) {
+    return { ok: false, errors: ["version: expected a non-negative integer"] };
+  }
+  if (migratedFrom > SAVE_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `version: save is from a newer build (v${migratedFrom}, this build reads up to v${SAVE_VERSION})`,
+      ],
+    };
+  }
+
+  let save: RawSave = raw;
+  for (let version = migratedFrom; version < SAVE_VERSION; version++) {
+    save = MIGRATIONS[version](save);
+  }
+
+  const errors = validateSave(save);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, state: save as unknown as SavedGameState, migratedFrom };
+}
+
+// Returns one message per invalid field; an empty list means the save is valid
+export function validateSave(save: RawSave): string[] {
+  const errors: string[] = [];
+
+  if (save.version !== SAVE_VERSION) {
+    errors.push(`version: expected ${SAVE_VERSION}`);
+  }
+  if (!isInteger(save.revision) || save.revision < 0) {
+    errors.push("revision: expected a non-negative integer");
+  }
+
+  errors.push(...validateConfig(save.config));
+
+  if (!isObject(save.playerPos)) {
+    errors.push("playerPos: expected an object with i and j");
+  } else {
+    if (!isInteger(save.playerPos.i)) {
+      errors.push("playerPos.i: expected an integer");
+    }
+    if (!isInteger(save.playerPos.j)) {
+      errors.push("playerPos.j: expected an integer");
+    }
+  }
+  if (!isPos(save.startPos)) {
+    errors.push("startPos: expected an object with integer i and j");
+  }
+
+  if (!Array.isArray(save.inventory) || save.inventory.length === 0) {
+    errors.push("inventory: expected a non-empty array");
+  } else {
+    save.inventory.forEach((token, slot) => {
+      if (token !== null && !isToken(token)) {
+        errors.push(`inventory[${slot}]: expected null or a positive integer`);
+      }
+    });
+    if (
+      !isInteger(save.activeSlot) || save.activeSlot < 0 ||
+      save.activeSlot >= save.inventory.length
+    ) {
+      errors.push("activeSlot: expected an index into inventory");
+    }
+  }
+
+  if (!isObject(save.cellContents)) {
+    errors.push("cellContents: expected an object");
+  } else {
+    Object.entries(save.cellContents).forEach(([key, value]) => {
+      if (!/^-?\d+,-?\d+$/.test(key)) {
+        errors.push(`cellContents["${key}"]: key must look like "i,j"`);
+      }
+      if (!isInteger(value) || value < 0) {
+        errors.push(
+          `cellContents["${key}"]: expected 0 (emptied) or a positive integer`,
+        );
+      }
+    });
+  }
+  if (!isObject(save.emptiedAt)) {
+    errors.push("emptiedAt: expected an object");
+  } else {
+    Object.entries(save.emptiedAt).forEach(([key, time]) => {
+      if (!isInteger(time)) {
+        errors.push(`emptiedAt["${key}"]: expected a timestamp`);
+      }
+    });
+  }
+
+  if (!isObject(save.history)) {
+    errors.push("history: expected an object with undo and redo");
+  } else {
+    // a bad inventory is reported above; don't flag every command as well
+    const slots = Array.isArray(save.inventory) && save.inventory.length > 0
+      ? save.inventory.length
+      : Infinity;
+    (["undo", "redo"] as const).forEach((stack) => {
+      const commands = (save.history as RawSave)[stack];
+      if (!Array.isArray(commands)) {
+        errors.push(`history.${stack}: expected an array`);
+        return;
+      }
+      commands.forEach((command, index) => {
+        if (!isCommand(command, slots)) {
+          errors.push(`history.${stack}[${index}]: not a valid command`);
+        }
+      });
+    });
+  }
+
+  if (!isInteger(save.moveCount) || save.moveCount < 0) {
+    errors.push("moveCount: expected a non-negative integer");
+  }
+  if (!isInteger(save.highestToken) || save.highestToken < 0) {
+    errors.push("highestToken: expected a non-negative integer");
+  }
+  if (!isInteger(save.startedAt)) {
+    errors.push("startedAt: expected a timestamp");
+  }
+  if (save.result !== null) {
+    const result = save.result;
+    const valid = isObject(result) &&
+      ["won", "timeUp", "outOfSteps"].includes(result.outcome as string) &&
+      isInteger(result.highestToken) && isInteger(result.moves) &&
+      typeof result.elapsedMs === "number";
+    if (!valid) errors.push("result: expected null or a game result");
+  }
+
+  return errors;
+}
+
+function validateConfig(config: unknown): string[] {
+  if (!isObject(config)) return ["config: expected an object"];
+
+  const errors: string[] = [];
+  if (!isModeId(config.mode)) {
+    errors.push(`config.mode: expected one of ${Object.keys(PRESETS)}`);
+  }
+  (
+    ["winValue", "interactionRange", "gridSize", "inventorySize"] as const
+  ).forEach((field) => {
+    if (!isToken(config[field])) {
+      errors.push(`config.${field}: expected a positive integer`);
+    }
+  });
+  if (
+    config.timeLimitMinutes !== null &&
+    !(typeof config.timeLimitMinutes === "number" &&
+      config.timeLimitMinutes > 0)
+  ) {
+    errors.push("config.timeLimitMinutes: expected null or a positive number");
+  }
+  if (config.stepLimit !== null && !isToken(config.stepLimit)) {
+    errors.push("config.stepLimit: expected null or a positive integer");
+  }
+  if (
+    config.regenerationMinutes !== null &&
+    !(typeof config.regenerationMinutes === "number" &&
+      config.regenerationMinutes > 0)
+  ) {
+    errors.push(
+      "config.regenerationMinutes: expected null or a positive number",
+    );
+  }
+  if (typeof config.seed !== "string") {
+    errors.push("config.seed: expected a string");
+  }
+  errors.push(...validateSpawnTable(config.spawn, "config.spawn"));
+  return errors;
+}
+
+// Slots must index into an inventory of the given size
+function isCommand(value: unknown, slots: number): boolean {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case "pickedUp":
+    case "merged":
+    case "dropped":
+      return isInteger(value.i) && isInteger(value.j) &&
+        isToken(value.value) && isSlot(value.slot, slots);
+    case "swapped":
+      return isInteger(value.i) && isInteger(value.j) &&
+        isToken(value.held) && isToken(value.left) && isSlot(value.slot, slots);
+    case "slotMerged":
+    case "slotMoved":
+      return isSlot(value.from, slots) && isSlot(value.to, slots) &&
+        isToken(value.value);
+    case "moved":
+      return isPos(value.from) && isPos(value.to);
+    default:
+      return false;
+  }
+}
+
+function isSlot(value: unknown, slots: number): boolean {
+  return isInteger(value) && value >= 0 && value < slots;
+}
+
+function isPos(value: unknown): boolean {
+  return isObject(value) && isInteger(value.i) && isInteger(value.j);
+}
+
+function isObject(value: unknown): value is RawSave {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value);
+}
+
+function isToken(value: unknown): value is number {
+  return isInteger(value) && value > 0;
+}
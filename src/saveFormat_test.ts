@@ -0,0 +1,307 @@
+import assert from "node:assert/strict";
+import { PRESETS } from "./gameConfig.ts";
+import { SAVE_VERSION, type SavedGameState } from "./gameEngine.ts";
+import { migrateSave, parseSave, validateSave } from "./saveFormat.ts";
+
+// One save as each version wrote it, each built on the one before
+const V3 = {
+  version: 3,
+  playerPos: { i: 1, j: 2 },
+  inventory: [2, null],
+  activeSlot: 1,
+  cellContents: { "1,0": 0, "2,0": 8 },
+  history: {
+    undo: [{ type: "pickedUp", i: 1, j: 0, value: 2, slot: 0 }],
+    redo: [],
+  },
+};
+const V4 = {
+  ...V3,
+  version: 4,
+  config: {
+    mode: "quick",
+    winValue: 16,
+    timeLimitMinutes: null,
+    stepLimit: null,
+    interactionRange: 3,
+    gridSize: 5,
+    inventorySize: 4,
+    spawnProbability: 0.25,
+    spawnValues: [{ value: 1, weight: 1 }],
+  },
+  moveCount: 3,
+  highestToken: 8,
+  startedAt: 1000,
+  result: null,
+};
+const V5 = { ...V4, version: 5, config: { ...V4.config, seed: "abc" } };
+const { spawnProbability: _, spawnValues: __, ...v5Rules } = V5.config;
+const V6 = {
+  ...V5,
+  version: 6,
+  startPos: { i: 1, j: 2 },
+  config: {
+    ...v5Rules,
+    spawn: {
+      probability: 0.25,
+      values: [{ value: 1, weight: 1 }],
+      origin: "start",
+      regions: [],
+    },
+  },
+};
+const V7 = {
+  ...V6,
+  version: 7,
+  emptiedAt: { "1,0": 500 },
+  config: { ...V6.config, regenerationMinutes: 5 },
+};
+const V8 = { ...V7, version: 8, revision: 4 };
+
+// Migrates a save that must come out valid
+function migrated(raw: unknown, from: number): SavedGameState {
+  const result = migrateSave(raw);
+  assert.ok(result.ok, JSON.stringify(result));
+  assert.equal(result.migratedFrom, from);
+  assert.equal(result.state.version, SAVE_VERSION);
+  return result.state;
+}
+
+Deno.test("v0: keeps numeric cells and starts versioning", () => {
+  const state = migrated({
+    playerPos: { i: 1, j: 2 },
+    heldToken: 4,
+    cellContents: { "1,0": 2, "2,0": "8" },
+  }, 0);
+  assert.deepEqual(state.cellContents, { "1,0": 2 });
+  assert.deepEqual(state.inventory, [4]);
+  assert.equal(state.highestToken, 4);
+});
+
+Deno.test("v1: adds an empty history", () => {
+  const state = migrated({
+    version: 1,
+    playerPos: { i: 0, j: 0 },
+    heldToken: null,
+    cellContents: {},
+  }, 1);
+  assert.deepEqual(state.history, { undo: [], redo: [] });
+  assert.deepEqual(state.inventory, [null]);
+});
+
+Deno.test("v2: the held token becomes slot 0 of the inventory", () => {
+  const state = migrated({
+    version: 2,
+    playerPos: { i: 0, j: 0 },
+    heldToken: 2,
+    cellContents: {},
+    history: {
+      undo: [
+        { type: "pickedUp", i: 1, j: 0, value: 2 },
+        { type: "moved", from: { i: 0, j: 0 }, to: { i: 0, j: 1 } },
+      ],
+      redo: [{ type: "dropped", i: 1, j: 0, value: 2 }],
+    },
+  }, 2);
+  assert.deepEqual(state.inventory, [2]);
+  assert.equal(state.activeSlot, 0);
+  assert.deepEqual(state.history, {
+    undo: [
+      { type: "pickedUp", i: 1, j: 0, value: 2, slot: 0 },
+      { type: "moved", from: { i: 0, j: 0 }, to: { i: 0, j: 1 } },
+    ],
+    redo: [{ type: "dropped", i: 1, j: 0, value: 2, slot: 0 }],
+  });
+});
+
+Deno.test("v3: becomes a Classic game with the old rules", () => {
+  const state = migrated(V3, 3);
+  assert.equal(state.config.mode, "classic");
+  assert.equal(state.config.winValue, PRESETS.classic.winValue);
+  assert.deepEqual(state.config.spawn, {
+    probability: 0.5,
+    values: [{ value: 1, weight: 0.7 }, { value: 2, weight: 0.3 }],
+    origin: "nullIsland",
+    regions: [],
+  });
+  assert.equal(state.config.regenerationMinutes, null);
+  assert.equal(state.highestToken, 8);
+  assert.equal(state.moveCount, 0);
+  assert.equal(state.result, null);
+});
+
+Deno.test("v4: joins the shared world", () => {
+  const state = migrated(V4, 4);
+  assert.equal(state.config.seed, "");
+  assert.equal(state.config.mode, "quick");
+  assert.equal(state.moveCount, 3);
+});
+
+Deno.test("v5: the flat spawn rates become a table around Null Island", () => {
+  const state = migrated(V5, 5);
+  assert.deepEqual(state.config.spawn, {
+    probability: 0.25,
+    values: [{ value: 1, weight: 1 }],
+    origin: "nullIsland",
+    regions: [],
+  });
+  assert.deepEqual(state.startPos, { i: 0, j: 0 });
+  assert.equal(state.config.seed, "abc");
+});
+
+Deno.test("v6: nothing regrows", () => {
+  const state = migrated(V6, 6);
+  assert.equal(state.config.regenerationMinutes, null);
+  assert.deepEqual(state.emptiedAt, {});
+  assert.equal(state.config.spawn.origin, "start");
+});
+
+Deno.test("v7: starts at revision 0", () => {
+  const state = migrated(V7, 7);
+  assert.equal(state.revision, 0);
+  assert.equal(state.config.regenerationMinutes, 5);
+});
+
+Deno.test("v8: a current save is read as is", () => {
+  assert.deepEqual(migrated(V8, 8), V8);
+  assert.deepEqual(parseSave(JSON.stringify(V8)), {
+    ok: true,
+    state: V8,
+    migratedFrom: 8,
+  });
+});
+
+Deno.test("rejects what can't be migrated", () => {
+  assert.deepEqual(parseSave("{"), {
+    ok: false,
+    errors: ["save is not valid JSON"],
+  });
+  assert.deepEqual(migrateSave([]), {
+    ok: false,
+    errors: ["save must be a JSON object"],
+  });
+  assert.deepEqual(migrateSave({ ...V8, version: -1 }), {
+    ok: false,
+    errors: ["version: expected a non-negative integer"],
+  });
+  assert.deepEqual(migrateSave({ ...V8, version: 9 }), {
+    ok: false,
+    errors: [
+      "version: save is from a newer build (v9, this build reads up to v8)",
+    ],
+  });
+});
+
+const config = V8.config;
+const rejections: [Record<string, unknown>, string][] = [
+  [{ version: 7 }, "version: expected 8"],
+  [{ revision: -1 }, "revision: expected a non-negative integer"],
+  [{ config: null }, "config: expected an object"],
+  [
+    { config: { ...config, mode: "hard" } },
+    `config.mode: expected one of ${Object.keys(PRESETS)}`,
+  ],
+  [
+    { config: { ...config, gridSize: 0 } },
+    "config.gridSize: expected a positive integer",
+  ],
+  [
+    { config: { ...config, timeLimitMinutes: 0 } },
+    "config.timeLimitMinutes: expected null or a positive number",
+  ],
+  [
+    { config: { ...config, stepLimit: 1.5 } },
+    "config.stepLimit: expected null or a positive integer",
+  ],
+  [
+    { config: { ...config, regenerationMinutes: "5" } },
+    "config.regenerationMinutes: expected null or a positive number",
+  ],
+  [{ config: { ...config, seed: 1 } }, "config.seed: expected a string"],
+  [
+    { config: { ...config, spawn: null } },
+    "config.spawn: expected an object",
+  ],
+  [{ playerPos: null }, "playerPos: expected an object with i and j"],
+  [{ playerPos: { i: 0.5, j: 0 } }, "playerPos.i: expected an integer"],
+  [{ playerPos: { i: 0, j: "0" } }, "playerPos.j: expected an integer"],
+  [
+    { startPos: { i: 0 } },
+    "startPos: expected an object with integer i and j",
+  ],
+  [{ inventory: [] }, "inventory: expected a non-empty array"],
+  [
+    { inventory: [2, 0] },
+    "inventory[1]: expected null or a positive integer",
+  ],
+  [{ activeSlot: 2 }, "activeSlot: expected an index into inventory"],
+  [{ cellContents: [] }, "cellContents: expected an object"],
+  [
+    { cellContents: { "1;0": 2 } },
+    'cellContents["1;0"]: key must look like "i,j"',
+  ],
+  [
+    { cellContents: { "1,0": -1 } },
+    'cellContents["1,0"]: expected 0 (emptied) or a positive integer',
+  ],
+  [{ emptiedAt: null }, "emptiedAt: expected an object"],
+  [
+    { emptiedAt: { "1,0": "now" } },
+    'emptiedAt["1,0"]: expected a timestamp',
+  ],
+  [{ history: [] }, "history: expected an object with undo and redo"],
+  [
+    { history: { undo: [], redo: null } },
+    "history.redo: expected an array",
+  ],
+  [
+    { history: { undo: [{ type: "teleported" }], redo: [] } },
+    "history.undo[0]: not a valid command",
+  ],
+  [
+    {
+      history: {
+        undo: [],
+        redo: [{ type: "slotMoved", from: 0, to: 2, value: 2 }],
+      },
+    },
+    "history.redo[0]: not a valid command",
+  ],
+  [{ moveCount: -1 }, "moveCount: expected a non-negative integer"],
+  [{ highestToken: null }, "highestToken: expected a non-negative integer"],
+  [{ startedAt: "1000" }, "startedAt: expected a timestamp"],
+  [
+    { result: { outcome: "lost", highestToken: 2, moves: 1, elapsedMs: 0 } },
+    "result: expected null or a game result",
+  ],
+];
+
+Deno.test("reports each invalid field", () => {
+  assert.deepEqual(validateSave(V8), []);
+  for (const [change, error] of rejections) {
+    assert.deepEqual(validateSave({ ...V8, ...change }), [error]);
+  }
+});
+
+Deno.test("history slots must be in the inventory", () => {
+  const swapped = { type: "swapped", i: 1, j: 0, held: 2, left: 4 };
+  assert.deepEqual(
+    validateSave({
+      ...V8,
+      history: { undo: [{ ...swapped, slot: 1 }], redo: [] },
+    }),
+    [],
+  );
+  assert.deepEqual(
+    validateSave({
+      ...V8,
+      history: { undo: [{ ...swapped, slot: 2 }], redo: [] },
+    }),
+    ["history.undo[0]: not a valid command"],
+  );
+  // A broken inventory is reported once, not once per command
+  assert.deepEqual(
+    validateSave({ ...V8, inventory: null, activeSlot: 0 }),
+    ["inventory: expected a non-empty array"],
+  );
+});
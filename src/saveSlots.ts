@@ -0,0 +1,452 @@
+// === Save Slots: several named games in one browser ===
+// Each slot keeps its own SavedGameState in GameStorage; a small index
+// lists the slots and remembers which one is active. Player stats, the
+// activity journal and the explored area live next to each slot's game, so
+// New Game keeps them. A game's cells are stored per region of the grid,
+// and a save writes only the records that changed since the last one, all
+// in one batch.
+import type { JournalEntry } from "./activityJournal.ts";
+import type { SavedExploredArea } from "./exploredArea.ts";
+import type { SavedGameState } from "./gameEngine.ts";
+import type { GameStorage } from "./gameStorage.ts";
+import { t } from "./i18n.ts";
+import type { PlayerStats } from "./playerStats.ts";
+import { parseSave } from "./saveFormat.ts";
+
+export const STORAGE_KEY = "coinCollectorGameState";
+export const INDEX_KEY = "coinCollectorSaveSlots";
+// Cells are stored in square regions this many cells wide
+export const REGION_SIZE = 32;
+
+// Thrown by write when another tab saved a newer revision of the game
+export class SaveConflictError extends Error {
+  constructor(readonly storedRevision: number) {
+    super(`Save slot was updated elsewhere (revision ${storedRevision})`);
+    this.name = "SaveConflictError";
+  }
+}
+
+// Summary shown in the slot list, kept in the index so listing slots
+// doesn't parse every save
+export interface SaveSlotInfo {
+  id: string;
+  name: string;
+  updatedAt: number;
+  playerPos: { i: number; j: number };
+  highestToken: number;
+}
+
+interface SaveSlotIndex {
+  activeSlotId: string;
+  slots: SaveSlotInfo[];
+}
+
+// Everything saved for a slot, as raw JSON; null where nothing was saved
+export interface SlotData {
+  game: string | null;
+  stats: string | null;
+  journal: string | null;
+  explored: string | null;
+}
+
+// What a save writes
+export interface SlotSave {
+  game: SavedGameState;
+  stats: PlayerStats;
+  journal: JournalEntry[];
+  explored: SavedExploredArea;
+}
+
+// The cells of one region
+interface SavedRegion {
+  cellContents: Record<string, number>;
+  emptiedAt: Record<string, number>;
+}
+
+export class SaveSlotManager {
+  // Each record as last read or written, so saves skip unchanged ones
+  private readonly records = new Map<string, string>();
+  // Slots whose records have been read into records
+  private readonly loaded = new Set<string>();
+
+  private constructor(
+    private readonly storage: GameStorage,
+    private index: SaveSlotIndex,
+  ) {}
+
+  // Opens the slots kept in storage. Saves an older build left in legacy
+  // storage (localStorage, before IndexedDB) are moved over first.
+  static async open(
+    storage: GameStorage,
+    legacy: GameStorage | null = null,
+  ): Promise<SaveSlotManager> {
+    if (legacy && (await storage.get(INDEX_KEY)) === null) {
+      await moveSaves(legacy, storage);
+    }
+    const index = await readIndex(storage) ?? await createIndex(storage);
+    return new SaveSlotManager(storage, index);
+  }
+
+  // Pick up slot changes another tab made to storage
+  async reloadIndex(): Promise<void> {
+    const index = await readIndex(this.storage);
+    if (index) this.index = index;
+  }
+
+  listSlots(): SaveSlotInfo[] {
+    return this.index.slots.map((slot) => ({ ...slot }));
+  }
+
+  getActiveSlot(): SaveSlotInfo {
+    return { ...this.findSlot(this.index.activeSlotId) };
+  }
+
+  async setActiveSlot(id: string): Promise<void> {
+    this.findSlot(id);
+    await this.writeIndex({ ...this.index, activeSlotId: id });
+  }
+
+  // Reads a slot's game (with its regions' cells put back), stats, journal
+  // and explored area
+  async read(id: string = this.index.activeSlotId): Promise<SlotData> {
+    this.findSlot(id);
+    const keys = [
+      slotKey(id),
+      statsKey(id),
+      journalKey(id),
+      exploredKey(id),
+      ...await this.storage.keys(regionPrefix(id)),
+    ];
+    const values = await Promise.all(keys.map((key) => this.storage.get(key)));
+
+    this.forget(id);
+    keys.forEach((key, index) => {
+      const value = values[index];
+      if (value !== null) this.records.set(key, value);
+    });
+    this.loaded.add(id);
+
+    const [game, stats, journal, explored, ...regions] = values;
+    return {
+      game: game === null ? null : withRegions(game, regions),
+      stats,
+      journal,
+      explored,
+    };
+  }
+
+  // Revision of the game as last read or written, 0 if there is none
+  getRevision(id: string = this.index.activeSlotId): number {
+    return revisionOf(this.records.get(slotKey(id)) ?? null);
+  }
+
+  // Writes a save with the game as its next revision, and returns that
+  // revision. Throws SaveConflictError if the stored game is newer than
+  // the one being saved, and whatever storage throws (e.g. when it's full)
+  async write(
+    save: SlotSave,
+    id: string = this.index.activeSlotId,
+  ): Promise<number> {
+    this.findSlot(id);
+    if (!this.loaded.has(id)) await this.read(id);
+    const storedRevision = revisionOf(await this.storage.get(slotKey(id)));
+    if (storedRevision > save.game.revision) {
+      throw new SaveConflictError(storedRevision);
+    }
+
+    const revision = save.game.revision + 1;
+    const next = new Map<string, string>([
+      [
+        slotKey(id),
+        JSON.stringify({
+          ...save.game,
+          revision,
+          cellContents: {},
+          emptiedAt: {},
+        }),
+      ],
+      [statsKey(id), JSON.stringify(save.stats)],
+      [journalKey(id), JSON.stringify(save.journal)],
+      [exploredKey(id), JSON.stringify(save.explored)],
+    ]);
+    splitRegions(save.game).forEach((region, key) => {
+      next.set(`${regionPrefix(id)}${key}`, JSON.stringify(region));
+    });
+
+    const changes = new Map<string, string | null>();
+    next.forEach((value, key) => {
+      if (this.records.get(key) !== value) changes.set(key, value);
+    });
+    // Regions whose cells are all back to their spawn
+    for (const key of this.records.keys()) {
+      if (key.startsWith(regionPrefix(id)) && !next.has(key)) {
+        changes.set(key, null);
+      }
+    }
+    await this.writeIndex(
+      withSummary(this.index, id, summarize(save.game)),
+      changes,
+    );
+    this.apply(changes);
+    return revision;
+  }
+
+  // Forget a slot's game but keep the slot itself and its stats, journal
+  // and explored area (New Game)
+  async clearSlot(id: string = this.index.activeSlotId): Promise<void> {
+    this.findSlot(id);
+    const changes = new Map<string, string | null>([[slotKey(id), null]]);
+    (await this.storage.keys(regionPrefix(id))).forEach((key) => {
+      changes.set(key, null);
+    });
+    await this.writeIndex(withSummary(this.index, id, emptySummary()), changes);
+    this.apply(changes);
+  }
+
+  async createSlot(name: string): Promise<SaveSlotInfo> {
+    const slot: SaveSlotInfo = { id: newSlotId(), name, ...emptySummary() };
+    await this.writeIndex({
+      ...this.index,
+      slots: [...this.index.slots, slot],
+    });
+    return { ...slot };
+  }
+
+  async renameSlot(id: string, name: string): Promise<void> {
+    this.findSlot(id);
+    await this.writeIndex(withSummary(this.index, id, { name }));
+  }
+
+  async duplicateSlot(id: string, name: string): Promise<SaveSlotInfo> {
+    const copy: SaveSlotInfo = { ...this.findSlot(id), id: newSlotId(), name };
+    const changes = new Map<string, string | null>();
+    for (const key of await this.slotKeys(id)) {
+      const value = await this.storage.get(key);
+      if (value !== null) {
+        changes.set(slotKey(copy.id) + key.slice(slotKey(id).length), value);
+      }
+    }
+    await this.writeIndex(
+      { ...this.index, slots: [...this.index.slots, copy] },
+      changes,
+    );
+    return { ...copy };
+  }
+
+  // The last remaining slot can't be deleted; deleting the active slot
+  // activates the first remaining one
+  async deleteSlot(id: string): Promise<void> {
+    this.findSlot(id);
+    if (this.index.slots.length === 1) {
+      throw new Error("Can't delete the only save slot");
+    }
+    const changes = new Map<string, string | null>();
+    (await this.slotKeys(id)).forEach((key) => changes.set(key, null));
+    const slots = this.index.slots.filter((slot) => slot.id !== id);
+    const activeSlotId = this.index.activeSlotId === id
+      ? slots[0].id
+      : this.index.activeSlotId;
+    await this.writeIndex({ activeSlotId, slots }, changes);
+    this.forget(id);
+  }
+
+  private findSlot(id: string): SaveSlotInfo {
+    const slot = this.index.slots.find((slot) => slot.id === id);
+    if (!slot) throw new Error(`No save slot with id ${id}`);
+    return slot;
+  }
+
+  // Every key holding one of the slot's records
+  private async slotKeys(id: string): Promise<string[]> {
+    return [slotKey(id), ...await this.storage.keys(`${slotKey(id)}:`)];
+  }
+
+  // Writes the index along with other changes, in one batch; the index
+  // is only replaced in memory once it's stored
+  private async writeIndex(
+    index: SaveSlotIndex,
+    changes: Map<string, string | null> = new Map(),
+  ): Promise<void> {
+    changes.set(INDEX_KEY, JSON.stringify(index));
+    await this.storage.write(changes);
+    this.index = index;
+  }
+
+  // Remember what a successful write stored
+  private apply(changes: Map<string, string | null>): void {
+    changes.forEach((value, key) => {
+      if (value === null) {
+        this.records.delete(key);
+      } else {
+        this.records.set(key, value);
+      }
+    });
+  }
+
+  private forget(id: string): void {
+    for (const key of this.records.keys()) {
+      if (key === slotKey(id) || key.startsWith(`${slotKey(id)}:`)) {
+        this.records.delete(key);
+      }
+    }
+    this.loaded.delete(id);
+  }
+}
+
+// Whether a storage key holds save slot data (a game, its regions, stats,
+// journal, explored area or the index)
+export function isSaveKey(key: string): boolean {
+  return key === INDEX_KEY || key.startsWith(`${STORAGE_KEY}:`);
+}
+
+async function readIndex(storage: GameStorage): Promise<SaveSlotIndex | null> {
+  try {
+    const saved = await storage.get(INDEX_KEY);
+    if (!saved) return null;
+    const index: SaveSlotIndex = JSON.parse(saved);
+    const valid = Array.isArray(index.slots) && index.slots.length > 0 &&
+      index.slots.some((slot) => slot.id === index.activeSlotId);
+    return valid ? index : null;
+  } catch (error) {
+    console.error("Failed to read save slot index:", error);
+    return null;
+  }
+}
+
+// First run: the single save from older builds becomes the first slot
+async function createIndex(storage: GameStorage): Promise<SaveSlotIndex> {
+  const slot: SaveSlotInfo = {
+    id: newSlotId(),
+    name: t("slots.defaultName", { number: 1 }),
+    ...emptySummary(),
+  };
+  const changes = new Map<string, string | null>();
+  const legacy = await storage.get(STORAGE_KEY);
+  if (legacy !== null) {
+    changes.set(slotKey(slot.id), legacy);
+    changes.set(STORAGE_KEY, null);
+    const result = parseSave(legacy);
+    if (result.ok) Object.assign(slot, summarize(result.state));
+    console.log("Moved existing save into slot", slot.name);
+  }
+  const index = { activeSlotId: slot.id, slots: [slot] };
+  changes.set(INDEX_KEY, JSON.stringify(index));
+  await storage.write(changes);
+  return index;
+}
+
+// Copies every save from one storage to another, then deletes the
+// originals
+async function moveSaves(from: GameStorage, to: GameStorage): Promise<void> {
+  const keys = (await from.keys("")).filter((key) =>
+    isSaveKey(key) || key === STORAGE_KEY
+  );
+  if (keys.length === 0) return;
+  const copies = new Map<string, string | null>();
+  for (const key of keys) copies.set(key, await from.get(key));
+  await to.write(copies);
+  await from.write(new Map(keys.map((key) => [key, null])));
+  console.log(`Moved ${keys.length} saved records to ${to.kind}`);
+}
+
+function slotKey(id: string): string {
+  return `${STORAGE_KEY}:${id}`;
+}
+
+function statsKey(id: string): string {
+  return `${slotKey(id)}:stats`;
+}
+
+function journalKey(id: string): string {
+  return `${slotKey(id)}:journal`;
+}
+
+function exploredKey(id: string): string {
+  return `${slotKey(id)}:explored`;
+}
+
+// Followed by the region's "ri,rj"
+function regionPrefix(id: string): string {
+  return `${slotKey(id)}:cells:`;
+}
+
+function revisionOf(json: string | null): number {
+  try {
+    const revision = JSON.parse(json ?? "{}").revision;
+    return Number.isInteger(revision) ? revision : 0;
+  } catch {
+    return 0;
+  }
+}
+
+// Groups a game's changed cells by region, keyed "ri,rj"
+function splitRegions(game: SavedGameState): Map<string, SavedRegion> {
+  const regions = new Map<string, SavedRegion>();
+  const regionOf = (cell: string): SavedRegion => {
+    const [i, j] = cell.split(",").map(Number);
+    const key = `${Math.floor(i / REGION_SIZE)},${Math.floor(j / REGION_SIZE)}`;
+    let region = regions.get(key);
+    if (!region) {
+      region = { cellContents: {}, emptiedAt: {} };
+      regions.set(key, region);
+    }
+    return region;
+  };
+  Object.entries(game.cellContents).forEach(([cell, value]) => {
+    regionOf(cell).cellContents[cell] = value;
+  });
+  Object.entries(game.emptiedAt).forEach(([cell, time]) => {
+    regionOf(cell).emptiedAt[cell] = time;
+  });
+  return regions;
+}
+
+// Puts the cells of stored regions back into a stored game. Games saved
+// before regions keep their own cells; a game that isn't valid JSON is
+// left for parseSave to report.
+function withRegions(game: string, regions: (string | null)[]): string {
+  if (regions.length === 0) return game;
+  try {
+    const state = JSON.parse(game);
+    regions.forEach((json) => {
+      const region: Partial<SavedRegion> = JSON.parse(json ?? "{}");
+      Object.assign(state.cellContents ??= {}, region.cellContents);
+      Object.assign(state.emptiedAt ??= {}, region.emptiedAt);
+    });
+    return JSON.stringify(state);
+  } catch (error) {
+    console.error("Failed to read saved regions:", error);
+    return game;
+  }
+}
+
+function withSummary(
+  index: SaveSlotIndex,
+  id: string,
+  summary: Partial<SaveSlotInfo>,
+): SaveSlotIndex {
+  return {
+    ...index,
+    slots: index.slots.map((slot) =>
+      slot.id === id ? { ...slot, ...summary } : slot
+    ),
+  };
+}
+
+function newSlotId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+function emptySummary(): Omit<SaveSlotInfo, "id" | "name"> {
+  return { updatedAt: 0, playerPos: { i: 0, j: 0 }, highestToken: 0 };
+}
+
+function summarize(
+  gameState: SavedGameState,
+): Omit<SaveSlotInfo, "id" | "name"> {
+  return {
+    updatedAt: Date.now(),
+    playerPos: { ...gameState.playerPos },
+    highestToken: gameState.highestToken,
+  };
+}
@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import { ExploredArea } from "./exploredArea.ts";
+import { GameEngine, type SavedGameState } from "./gameEngine.ts";
+import { MemoryGameStorage } from "./gameStorage.ts";
+import { emptyStats } from "./playerStats.ts";
+import {
+  INDEX_KEY,
+  SaveConflictError,
+  SaveSlotManager,
+  type SlotSave,
+  STORAGE_KEY,
+} from "./saveSlots.ts";
+
+// Remembers every batch written, to see what a save touched
+class RecordingStorage extends MemoryGameStorage {
+  readonly writes: Map<string, string | null>[] = [];
+
+  override write(changes: Map<string, string | null>): Promise<void> {
+    this.writes.push(new Map(changes));
+    return super.write(changes);
+  }
+}
+
+// A game with the given changed cells, at the given revision
+function game(
+  cellContents: Record<string, number> = {},
+  revision = 0,
+): SavedGameState {
+  return {
+    ...new GameEngine().toMemento(),
+    revision,
+    cellContents,
+    emptiedAt: {},
+  };
+}
+
+function slotSave(gameState: SavedGameState): SlotSave {
+  return {
+    game: gameState,
+    stats: emptyStats(),
+    journal: [],
+    explored: new ExploredArea().toJSON(),
+  };
+}
+
+function regionKey(id: string, region: string): string {
+  return `${STORAGE_KEY}:${id}:cells:${region}`;
+}
+
+Deno.test("a fresh storage starts with one empty, active slot", async () => {
+  const slots = await SaveSlotManager.open(new MemoryGameStorage());
+  assert.equal(slots.listSlots().length, 1);
+  assert.deepEqual(await slots.read(), {
+    game: null,
+    stats: null,
+    journal: null,
+    explored: null,
+  });
+  assert.equal(slots.getRevision(), 0);
+});
+
+Deno.test("a save splits cells into regions and reads them back", async () => {
+  const storage = new MemoryGameStorage();
+  const slots = await SaveSlotManager.open(storage);
+  const { id } = slots.getActiveSlot();
+  const cells = { "1,0": 4, "40,-5": 8, "-1,-1": 2 };
+
+  assert.equal(await slots.write(slotSave(game(cells))), 1);
+  assert.deepEqual(
+    (await storage.keys(regionKey(id, ""))).sort(),
+    [regionKey(id, "-1,-1"), regionKey(id, "0,0"), regionKey(id, "1,-1")],
+  );
+  const stored = JSON.parse((await storage.get(`${STORAGE_KEY}:${id}`))!);
+  assert.deepEqual(stored.cellContents, {});
+
+  const reopened = await SaveSlotManager.open(storage);
+  const { game: json } = await reopened.read();
+  const restored: SavedGameState = JSON.parse(json!);
+  assert.deepEqual(restored.cellContents, cells);
+  assert.equal(restored.revision, 1);
+  assert.equal(reopened.getRevision(), 1);
+});
+
+Deno.test("a save writes only the records that changed", async () => {
+  const storage = new RecordingStorage();
+  const slots = await SaveSlotManager.open(storage);
+  const { id } = slots.getActiveSlot();
+  await slots.write(slotSave(game({ "1,0": 4, "40,-5": 8 })));
+
+  storage.writes.length = 0;
+  await slots.write(slotSave(game({ "1,0": 4, "40,-5": 16 }, 1)));
+  assert.equal(storage.writes.length, 1);
+  assert.deepEqual(
+    [...storage.writes[0].keys()].sort(),
+    [
+      INDEX_KEY,
+      `${STORAGE_KEY}:${id}`,
+      regionKey(id, "1,-1"),
+    ].sort(),
+  );
+});
+
+Deno.test("regions whose cells are all back to spawn are deleted", async () => {
+  const storage = new RecordingStorage();
+  const slots = await SaveSlotManager.open(storage);
+  const { id } = slots.getActiveSlot();
+  await slots.write(slotSave(game({ "1,0": 4, "40,-5": 8 })));
+
+  storage.writes.length = 0;
+  await slots.write(slotSave(game({ "1,0": 4 }, 1)));
+  assert.equal(storage.writes[0].get(regionKey(id, "1,-1")), null);
+  assert.deepEqual(await storage.keys(regionKey(id, "")), [
+    regionKey(id, "0,0"),
+  ]);
+});
+
+Deno.test("saving over a newer revision is a conflict", async () => {
+  const storage = new MemoryGameStorage();
+  const first = await SaveSlotManager.open(storage);
+  const second = await SaveSlotManager.open(storage);
+  await second.read();
+
+  await first.write(slotSave(game({ "1,0": 4 })));
+  await assert.rejects(
+    second.write(slotSave(game({ "2,0": 4 }))),
+    (error) => error instanceof SaveConflictError && error.storedRevision === 1,
+  );
+
+  await second.reloadIndex();
+  await second.read();
+  assert.equal(second.getRevision(), 1);
+  assert.equal(await second.write(slotSave(game({ "2,0": 4 }, 1))), 2);
+});
+
+Deno.test("saves in legacy storage move over on first open", async () => {
+  const legacy = new MemoryGameStorage();
+  const legacyGame = JSON.stringify(game({ "3,3": 2 }));
+  await legacy.write(
+    new Map([[STORAGE_KEY, legacyGame], ["unrelated", "kept"]]),
+  );
+
+  const storage = new MemoryGameStorage();
+  const slots = await SaveSlotManager.open(storage, legacy);
+  assert.deepEqual(await legacy.keys(""), ["unrelated"]);
+  assert.equal(await storage.get(STORAGE_KEY), null);
+  const { game: json } = await slots.read();
+  assert.deepEqual(JSON.parse(json!).cellContents, { "3,3": 2 });
+
+  // Once moved, legacy storage isn't read again
+  await legacy.write(new Map([[STORAGE_KEY, legacyGame]]));
+  await SaveSlotManager.open(storage, legacy);
+  assert.equal(await legacy.get(STORAGE_KEY), legacyGame);
+});
+
+Deno.test("slots with regions move over from legacy storage", async () => {
+  const legacy = new MemoryGameStorage();
+  const before = await SaveSlotManager.open(legacy);
+  await before.write(slotSave(game({ "1,0": 4, "40,-5": 8 })));
+
+  const storage = new MemoryGameStorage();
+  const slots = await SaveSlotManager.open(storage, legacy);
+  assert.deepEqual(await legacy.keys(""), []);
+  assert.deepEqual(slots.listSlots(), before.listSlots());
+  const { game: json } = await slots.read();
+  assert.deepEqual(JSON.parse(json!).cellContents, { "1,0": 4, "40,-5": 8 });
+});
+
+Deno.test("duplicating, clearing and deleting slots", async () => {
+  const storage = new MemoryGameStorage();
+  const slots = await SaveSlotManager.open(storage);
+  const original = slots.getActiveSlot();
+  await slots.write(slotSave(game({ "1,0": 4, "40,-5": 8 })));
+
+  const copy = await slots.duplicateSlot(original.id, "Copy");
+  assert.equal(copy.highestToken, slots.getActiveSlot().highestToken);
+  const copied = await slots.read(copy.id);
+  assert.deepEqual(JSON.parse(copied.game!).cellContents, {
+    "1,0": 4,
+    "40,-5": 8,
+  });
+  assert.notEqual(copied.stats, null);
+
+  await slots.clearSlot(copy.id);
+  const cleared = await slots.read(copy.id);
+  assert.equal(cleared.game, null);
+  assert.notEqual(cleared.stats, null);
+  assert.deepEqual(await storage.keys(regionKey(copy.id, "")), []);
+
+  await slots.deleteSlot(original.id);
+  assert.equal(slots.getActiveSlot().id, copy.id);
+  assert.deepEqual(await storage.keys(`${STORAGE_KEY}:${original.id}`), []);
+  await assert.rejects(slots.deleteSlot(copy.id));
+});
+
+Deno.test("a save storage can't hold is rejected and changes nothing", async () => {
+  const storage = new MemoryGameStorage(4000);
+  const slots = await SaveSlotManager.open(storage);
+  const { id } = slots.getActiveSlot();
+  const before = await storage.estimate();
+
+  const cells: Record<string, number> = {};
+  for (let i = 0; i < 200; i++) cells[`${i},0`] = 2;
+  await assert.rejects(
+    slots.write(slotSave(game(cells))),
+    (error) =>
+      error instanceof DOMException &&
+      error.name === "QuotaExceededError",
+  );
+  assert.deepEqual(await storage.estimate(), before);
+  assert.equal(await storage.get(`${STORAGE_KEY}:${id}`), null);
+  assert.equal(slots.getActiveSlot().updatedAt, 0);
+
+  // A smaller save still fits
+  assert.equal(await slots.write(slotSave(game({ "1,0": 4 }))), 1);
+});
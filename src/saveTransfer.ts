@@ -0,0 +1,85 @@
+// === Save Transfer: export/import files and shareable links ===
+// Moves a SavedGameState between devices as a JSON file or as a compressed
+// string in the URL fragment (#save=...).
+import type { SavedGameState } from "./gameEngine.ts";
+import { type ParseResult, parseSave } from "./saveFormat.ts";
+
+const LINK_PARAM = "save";
+const COMPRESSION_FORMAT = "deflate-raw";
+
+// Download the save as a .json file
+export function exportSaveFile(gameState: SavedGameState): void {
+  downloadJson("coin-collector-save", gameState);
+}
+
+// Download any JSON value as a timestamped file
+export function downloadJson(
+  baseName: string,
+  value: unknown,
+  extension: string = "json",
+): void {
+  const json = JSON.stringify(value, null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${baseName}-${
+    new Date().toISOString().replace(/[:.]/g, "-")
+  }.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Read and validate a save file picked by the user
+export async function importSaveFile(file: File): Promise<ParseResult> {
+  return parseSave(await file.text());
+}
+
+// Build a link to this page that loads the given save when opened
+export async function createSaveLink(
+  gameState: SavedGameState,
+): Promise<string> {
+  const encoded = await compressToBase64Url(JSON.stringify(gameState));
+  const url = new URL(globalThis.location.href);
+  url.hash = `${LINK_PARAM}=${encoded}`;
+  return url.toString();
+}
+
+// Returns the save encoded in a URL fragment, or null if there is none
+export async function readSaveLink(hash: string): Promise<ParseResult | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const encoded = params.get(LINK_PARAM);
+  if (!encoded) return null;
+
+  try {
+    return parseSave(await decompressFromBase64Url(encoded));
+  } catch {
+    return { ok: false, errors: ["save link is damaged or incomplete"] };
+  }
+}
+
+async function compressToBase64Url(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(
+    new CompressionStream(COMPRESSION_FORMAT),
+  );
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  let binary = "";
+  bytes.forEach((byte) => binary += String.fromCharCode(byte));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(
+    /=+$/,
+    "",
+  );
+}
+
+async function decompressFromBase64Url(encoded: string): Promise<string> {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(
+    new DecompressionStream(COMPRESSION_FORMAT),
+  );
+  return await new Response(stream).text();
+}
@@ -0,0 +1,204 @@
+// === Spawn Tables: which tokens appear where ===
+// A table gives the chance a cell holds a token and the weight of each
+// token value, as curves over the cell's distance from an origin, so
+// travelling further turns up better material. Named regions (GeoJSON
+// polygons) can replace the rates inside them.
+import type { Feature, Geometry, Position } from "geojson";
+
+// A constant, or [distance in cells, value] points interpolated linearly
+// and held flat past either end
+export type Curve = number | [number, number][];
+
+export interface SpawnEntry {
+  value: number;
+  weight: Curve;
+}
+
+export interface SpawnRates {
+  probability: Curve;
+  values: SpawnEntry[];
+}
+
+export interface SpawnRegion extends SpawnRates {
+  name: string;
+  // Polygons as GeoJSON [lng, lat] rings; the first ring of each is the
+  // outline, any others are holes
+  polygons: Position[][][];
+}
+
+export interface SpawnTable extends SpawnRates {
+  // Distance is measured from Null Island or from where the game started
+  origin: "nullIsland" | "start";
+  regions: SpawnRegion[];
+}
+
+export function evaluateCurve(curve: Curve, distance: number): number {
+  if (typeof curve === "number") return curve;
+  const points = [...curve].sort(([a], [b]) => a - b);
+  if (points.length === 0) return 0;
+
+  const first = points[0];
+  if (distance <= first[0]) return first[1];
+  for (let index = 1; index < points.length; index++) {
+    const [x1, y1] = points[index];
+    if (distance <= x1) {
+      const [x0, y0] = points[index - 1];
+      return y0 + (y1 - y0) * (distance - x0) / (x1 - x0);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+// The first region containing the point, if any
+export function regionAt(
+  table: SpawnTable,
+  lat: number,
+  lng: number,
+): SpawnRegion | undefined {
+  return table.regions.find((region) =>
+    region.polygons.some((polygon) => polygonContains(polygon, lng, lat))
+  );
+}
+
+// A region's rates where it applies, otherwise the table's own
+export function ratesAt(table: SpawnTable, lat: number, lng: number) {
+  return regionAt(table, lat, lng) ?? table;
+}
+
+// Inside the outline and outside every hole
+function polygonContains(polygon: Position[][], x: number, y: number) {
+  const [outline, ...holes] = polygon;
+  return outline !== undefined && ringContains(outline, x, y) &&
+    !holes.some((hole) => ringContains(hole, x, y));
+}
+
+// Ray casting: count the ring edges a ray to the east crosses
+function ringContains(ring: Position[], x: number, y: number): boolean {
+  let inside = false;
+  for (let a = 0, b = ring.length - 1; a < ring.length; b = a++) {
+    const [xa, ya] = ring[a];
+    const [xb, yb] = ring[b];
+    if ((ya > y) !== (yb > y) && x < xa + (y - ya) * (xb - xa) / (yb - ya)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Reads regions from a GeoJSON FeatureCollection of Polygon/MultiPolygon
+// features, each with properties like:
+//   { "name": "Downtown", "probability": 0.6,
+//     "values": [{ "value": 4, "weight": [[0, 0.5], [200, 1]] }] }
+// Throws an Error describing the problem if the file isn't usable
+export function parseRegions(text: string): SpawnRegion[] {
+  const data = JSON.parse(text) as { type?: string; features?: Feature[] };
+  if (data.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+    throw new Error("Regions file must be a GeoJSON FeatureCollection");
+  }
+
+  return data.features.map((feature, index) => {
+    const properties = feature.properties ?? {};
+    const name = typeof properties.name === "string"
+      ? properties.name
+      : `Region ${index + 1}`;
+    const polygons = polygonsOf(feature.geometry);
+    if (polygons.length === 0) {
+      throw new Error(`${name}: expected a Polygon or MultiPolygon`);
+    }
+    if (!isPolygonList(polygons)) {
+      throw new Error(`${name}: expected rings of [lng, lat] positions`);
+    }
+    const rates = {
+      probability: properties.probability,
+      values: properties.values,
+    };
+    const errors = validateRates(rates, name);
+    if (errors.length > 0) throw new Error(errors.join("; "));
+    return { ...(rates as SpawnRates), name, polygons };
+  });
+}
+
+function polygonsOf(geometry: Geometry | null): Position[][][] {
+  switch (geometry?.type) {
+    case "Polygon":
+      return [geometry.coordinates];
+    case "MultiPolygon":
+      return geometry.coordinates;
+    default:
+      return [];
+  }
+}
+
+// Per-field problems with a spawn table, prefixed with where it lives
+export function validateSpawnTable(table: unknown, where: string): string[] {
+  if (typeof table !== "object" || table === null) {
+    return [`${where}: expected an object`];
+  }
+  const fields = table as Record<string, unknown>;
+  const errors = validateRates(fields, where);
+  if (fields.origin !== "nullIsland" && fields.origin !== "start") {
+    errors.push(`${where}.origin: expected "nullIsland" or "start"`);
+  }
+  const regions = fields.regions;
+  if (!Array.isArray(regions)) {
+    errors.push(`${where}.regions: expected a list`);
+  } else {
+    regions.forEach((region, index) => {
+      const at = `${where}.regions[${index}]`;
+      if (typeof region !== "object" || region === null) {
+        errors.push(`${at}: expected an object`);
+        return;
+      }
+      if (typeof region.name !== "string") {
+        errors.push(`${at}.name: expected a string`);
+      }
+      if (!isPolygonList(region.polygons)) {
+        errors.push(`${at}.polygons: expected a list of polygons`);
+      }
+      errors.push(...validateRates(region, at));
+    });
+  }
+  return errors;
+}
+
+function validateRates(rates: Record<string, unknown>, where: string) {
+  const errors: string[] = [];
+  if (!isCurve(rates.probability)) {
+    errors.push(`${where}.probability: expected a number or curve`);
+  }
+  const values = rates.values;
+  const validValues = Array.isArray(values) && values.length > 0 &&
+    values.every((entry) =>
+      typeof entry === "object" && entry !== null &&
+      Number.isInteger(entry.value) && entry.value > 0 &&
+      isCurve(entry.weight)
+    );
+  if (!validValues) {
+    errors.push(`${where}.values: expected a list of { value, weight }`);
+  }
+  return errors;
+}
+
+function isCurve(value: unknown): value is Curve {
+  if (typeof value === "number") return value >= 0;
+  return Array.isArray(value) && value.length > 0 &&
+    value.every((point) =>
+      Array.isArray(point) && point.length === 2 &&
+      point.every((n) => typeof n === "number") && point[1] >= 0
+    );
+}
+
+// Polygons of rings of [lng, lat] positions (extra coordinates allowed)
+function isPolygonList(value: unknown): value is Position[][][] {
+  return Array.isArray(value) &&
+    value.every((polygon) =>
+      Array.isArray(polygon) &&
+      polygon.every((ring) =>
+        Array.isArray(ring) &&
+        ring.every((position) =>
+          Array.isArray(position) && position.length >= 2 &&
+          position.every((n) => Number.isFinite(n))
+        )
+      )
+    );
+}
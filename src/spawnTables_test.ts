@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { type GameConfig, PRESETS } from "./gameConfig.ts";
+import { spawnValue, TILE_DEGREES } from "./gameEngine.ts";
+import {
+  evaluateCurve,
+  parseRegions,
+  ratesAt,
+  regionAt,
+  type SpawnRegion,
+  type SpawnTable,
+  validateSpawnTable,
+} from "./spawnTables.ts";
+
+// A square of [lng, lat] from min to max degrees, as a polygon ring
+function square(min: number, max: number) {
+  return [[min, min], [max, min], [max, max], [min, max], [min, min]];
+}
+
+// Cells 0..9 on both axes, with a hole over cells 4 and 5
+const TOWN: SpawnRegion = {
+  name: "Town",
+  polygons: [[square(0, 10 * TILE_DEGREES), square(4e-4, 6e-4)]],
+  probability: 1,
+  values: [{ value: 8, weight: 1 }],
+};
+
+const TABLE: SpawnTable = {
+  probability: [[0, 0], [10, 1]],
+  values: [
+    { value: 1, weight: [[0, 1], [20, 0]] },
+    { value: 4, weight: [[0, 0], [20, 1]] },
+  ],
+  origin: "nullIsland",
+  regions: [],
+};
+
+const config = (spawn: SpawnTable): GameConfig => ({
+  ...PRESETS.classic,
+  spawn,
+  seed: "test",
+});
+
+const center = (cell: number) => (cell + 0.5) * TILE_DEGREES;
+
+Deno.test("curves interpolate between points and hold past the ends", () => {
+  const curve: [number, number][] = [[100, 0.5], [0, 0], [200, 0.5]];
+  assert.equal(evaluateCurve(0.3, 1e6), 0.3);
+  assert.equal(evaluateCurve(curve, -5), 0);
+  assert.equal(evaluateCurve(curve, 50), 0.25);
+  assert.equal(evaluateCurve(curve, 150), 0.5);
+  assert.equal(evaluateCurve(curve, 1e6), 0.5);
+  assert.equal(evaluateCurve([], 10), 0);
+});
+
+Deno.test("a region applies inside its outline but not in its holes", () => {
+  const table = { ...TABLE, regions: [TOWN] };
+  assert.equal(regionAt(table, center(2), center(8)), TOWN);
+  assert.equal(regionAt(table, center(5), center(4)), undefined);
+  assert.equal(regionAt(table, center(10), center(2)), undefined);
+  assert.equal(ratesAt(table, center(5), center(5)), table);
+});
+
+Deno.test("spawns follow the distance curves for a fixed seed", () => {
+  const cells = (from: number) =>
+    Array.from({ length: 20 }, (_, j) => spawnValue(from, j, config(TABLE)));
+
+  // Nothing spawns at the origin, everything past 10 cells out
+  assert.equal(spawnValue(0, 0, config(TABLE)), undefined);
+  const far = cells(1000);
+  assert.ok(far.every((value) => value === 4), `${far}`);
+
+  // The same seed always makes the same world, another seed another one
+  assert.deepEqual(cells(12), cells(12));
+  const other = { ...config(TABLE), seed: "other" };
+  assert.notDeepEqual(
+    cells(15),
+    Array.from({ length: 20 }, (_, j) => spawnValue(15, j, other)),
+  );
+
+  // Distance is from the game's start when the table says so
+  const fromStart = config({ ...TABLE, origin: "start" });
+  assert.equal(spawnValue(1000, 0, fromStart, { i: 1000, j: 0 }), undefined);
+});
+
+Deno.test("a region's rates replace the table's inside it", () => {
+  const withTown = config({ ...TABLE, regions: [TOWN] });
+  assert.equal(spawnValue(1, 1, withTown), 8);
+  assert.equal(spawnValue(9, 2, withTown), 8);
+  assert.equal(spawnValue(5, 5, withTown), spawnValue(5, 5, config(TABLE)));
+});
+
+Deno.test("parses regions from GeoJSON polygons", () => {
+  const regions = parseRegions(JSON.stringify({
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [square(0, 1)] },
+        properties: { name: "Park", probability: 0, values: TOWN.values },
+      },
+      {
+        type: "Feature",
+        geometry: {
+          type: "MultiPolygon",
+          coordinates: [[square(0, 1)], [square(2, 3)]],
+        },
+        properties: { probability: [[0, 1]], values: TOWN.values },
+      },
+    ],
+  }));
+  assert.deepEqual(regions.map((region) => region.name), ["Park", "Region 2"]);
+  assert.equal(regions[1].polygons.length, 2);
+});
+
+Deno.test("rejects unusable region files", () => {
+  const regions = (features: unknown[]) =>
+    parseRegions(JSON.stringify({ type: "FeatureCollection", features }));
+  const feature = (geometry: unknown, properties: unknown) => ({
+    type: "Feature",
+    geometry,
+    properties,
+  });
+  const polygon = { type: "Polygon", coordinates: [square(0, 1)] };
+  const rates = { probability: 1, values: TOWN.values };
+
+  assert.throws(() => parseRegions("[]"), /FeatureCollection/);
+  assert.throws(
+    () => regions([feature({ type: "Point", coordinates: [0, 0] }, rates)]),
+    /Region 1: expected a Polygon/,
+  );
+  assert.throws(
+    () =>
+      regions([
+        feature({ type: "Polygon", coordinates: [[[0, "1"]]] }, rates),
+      ]),
+    /rings of \[lng, lat\]/,
+  );
+  assert.throws(
+    () => regions([feature(polygon, { ...rates, probability: -1 })]),
+    /probability/,
+  );
+  assert.throws(
+    () => regions([feature(polygon, { ...rates, values: [] })]),
+    /values/,
+  );
+});
+
+Deno.test("validates saved spawn tables field by field", () => {
+  assert.deepEqual(validateSpawnTable(TABLE, "spawn"), []);
+  assert.deepEqual(validateSpawnTable("x", "spawn"), [
+    "spawn: expected an object",
+  ]);
+  assert.deepEqual(
+    validateSpawnTable({ ...TABLE, origin: "home", regions: {} }, "spawn"),
+    [
+      'spawn.origin: expected "nullIsland" or "start"',
+      "spawn.regions: expected a list",
+    ],
+  );
+  assert.deepEqual(
+    validateSpawnTable({
+      ...TABLE,
+      regions: [{ ...TOWN, name: 1, polygons: [[[["a", 0]]]] }],
+    }, "spawn"),
+    [
+      "spawn.regions[0].name: expected a string",
+      "spawn.regions[0].polygons: expected a list of polygons",
+    ],
+  );
+});
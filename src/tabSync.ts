@@ -0,0 +1,88 @@
+// === Tab Sync: one tab plays, the others watch ===
+// Every tab shares the same saves, so two tabs playing at once would
+// overwrite each other's progress. A Web Lock elects the active tab; the
+// others spectate, following its saves (GameStorage reports them), until
+// they take over. Browsers without Web Locks always play.
+
+export type TabRole = "active" | "spectator";
+
+export interface TabSyncCallbacks {
+  onRoleChange(role: TabRole): void;
+}
+
+const LOCK_NAME = "coinCollectorActiveTab";
+
+export class TabSync {
+  private role: TabRole = "active";
+  // Cancels the queued request for the lock while spectating
+  private waiting: AbortController | null = null;
+
+  constructor(private readonly callbacks: TabSyncCallbacks) {}
+
+  getRole(): TabRole {
+    return this.role;
+  }
+
+  // Resolves once this tab knows whether it's the active one
+  start(): Promise<TabRole> {
+    if (!navigator.locks) return Promise.resolve(this.role);
+
+    return new Promise((resolve) => {
+      navigator.locks.request(LOCK_NAME, { ifAvailable: true }, (lock) => {
+        if (!lock) {
+          this.setRole("spectator");
+          this.waitForLock();
+          resolve(this.role);
+          return;
+        }
+        resolve(this.role);
+        return this.hold();
+      }).catch((error) => this.lost(error));
+    });
+  }
+
+  // Make this tab the active one; the tab playing until now spectates
+  takeOver(): void {
+    if (!navigator.locks || this.role === "active") return;
+    this.waiting?.abort();
+    this.waiting = null;
+    navigator.locks.request(LOCK_NAME, { steal: true }, () => this.hold())
+      .catch((error) => this.lost(error));
+  }
+
+  // Queue for the lock, to play when the active tab closes
+  private waitForLock(): void {
+    const waiting = new AbortController();
+    this.waiting = waiting;
+    navigator.locks.request(
+      LOCK_NAME,
+      { signal: waiting.signal },
+      () => this.hold(),
+    ).catch((error) => {
+      if (!waiting.signal.aborted) this.lost(error);
+    });
+  }
+
+  // Keeps the lock until the tab closes or another tab steals it
+  private hold(): Promise<void> {
+    this.waiting = null;
+    this.setRole("active");
+    return new Promise(() => {});
+  }
+
+  // A stolen lock rejects its request with an AbortError
+  private lost(error: unknown): void {
+    if ((error as Error).name !== "AbortError") {
+      console.error("Failed to hold the active tab lock:", error);
+      return;
+    }
+    this.setRole("spectator");
+    this.waitForLock();
+  }
+
+  private setRole(role: TabRole): void {
+    if (role === this.role) return;
+    this.role = role;
+    this.callbacks.onRoleChange(role);
+  }
+}
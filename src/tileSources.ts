@@ -0,0 +1,102 @@
+// === Tile Sources: which basemap (if any) is drawn under the grid ===
+// Built-in providers plus custom URL templates, so the game also works
+// offline or in a lab without internet: "local" reads tiles served by the
+// dev server and "none" shows the plain grid.
+import { t } from "./i18n.ts";
+
+export interface TileSource {
+  id: string;
+  name: string;
+  // Leaflet URL template, or null for no basemap
+  url: string | null;
+  // HTML, as Leaflet's attribution control shows it
+  attribution: string;
+  // Highest zoom the provider has tiles for; higher zooms are upscaled
+  maxZoom: number;
+}
+
+export const TILE_SOURCES: TileSource[] = [
+  {
+    id: "osm",
+    name: t("tiles.osm"),
+    url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: "© OpenStreetMap",
+    maxZoom: 19,
+  },
+  {
+    // Relative to the page, so it works under any deploy base path. The dev
+    // server serves a tile directory here (see TILE_DIR in vite.config.js)
+    id: "local",
+    name: t("tiles.local"),
+    url: "tiles/{z}/{x}/{y}.png",
+    attribution: "Local tiles",
+    maxZoom: 19,
+  },
+  {
+    id: "none",
+    name: t("tiles.none"),
+    url: null,
+    attribution: "",
+    maxZoom: 19,
+  },
+];
+
+export const NO_BASEMAP = TILE_SOURCES.find((source) => source.id === "none")!;
+
+const TILE_SOURCE_KEY = "coinCollectorTileSource";
+
+export function findTileSource(id: string | null): TileSource | undefined {
+  return TILE_SOURCES.find((source) => source.id === id);
+}
+
+// ?tiles=<id> picks a built-in source; ?tiles=<url template> (containing
+// {z}, {x} and {y}) adds a custom one, with optional ?attribution= and
+// ?maxZoom=. Returns null when the URL doesn't choose a source.
+export function tileSourceFromParams(
+  params: URLSearchParams,
+): TileSource | null {
+  const tiles = params.get("tiles");
+  if (!tiles) return null;
+  const builtIn = findTileSource(tiles);
+  if (builtIn) return builtIn;
+  if (!["{z}", "{x}", "{y}"].every((part) => tiles.includes(part))) {
+    return null;
+  }
+
+  const maxZoom = Number(params.get("maxZoom"));
+  return {
+    id: "custom",
+    name: t("tiles.custom"),
+    url: tiles,
+    // Anyone can send a link, so its attribution is only ever text
+    attribution: escapeHtml(params.get("attribution") ?? ""),
+    maxZoom: Number.isInteger(maxZoom) && maxZoom > 0 ? maxZoom : 19,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// The basemap picked last time, defaulting to OpenStreetMap
+export function loadTileSource(storage: Storage = localStorage): TileSource {
+  try {
+    return findTileSource(storage.getItem(TILE_SOURCE_KEY)) ??
+      TILE_SOURCES[0];
+  } catch {
+    return TILE_SOURCES[0];
+  }
+}
+
+export function saveTileSource(
+  source: TileSource,
+  storage: Storage = localStorage,
+): void {
+  // Custom sources only live in the URL that defined them
+  if (source.id === "custom") return;
+  try {
+    storage.setItem(TILE_SOURCE_KEY, source.id);
+  } catch (error) {
+    console.error("Failed to save tile source:", error);
+  }
+}
@@ -0,0 +1,145 @@
+// === Tracks: recorded walks for replaying movement ===
+// Reads GPX files and GeoJSON LineStrings into timed lat/lng points, and
+// writes recorded GPS sessions back out as GeoJSON.
+import type { Feature, Geometry, LineString } from "geojson";
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  // ms since epoch, or null if the track has no timestamps
+  time: number | null;
+}
+
+// Throws an Error describing the problem if the text isn't a usable track
+export function parseTrack(text: string): TrackPoint[] {
+  const points = text.trimStart().startsWith("<")
+    ? parseGpx(text)
+    : parseGeoJson(JSON.parse(text));
+  if (points.length === 0) throw new Error("Track has no points");
+  return points;
+}
+
+function parseGpx(text: string): TrackPoint[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.querySelector("parsererror")) throw new Error("Invalid GPX file");
+
+  // Track points, falling back to route points
+  let nodes = Array.from(doc.getElementsByTagName("trkpt"));
+  if (nodes.length === 0) nodes = Array.from(doc.getElementsByTagName("rtept"));
+
+  return nodes.map((node, index) =>
+    trackPoint(
+      gpxNumber(node.getAttribute("lat")),
+      gpxNumber(node.getAttribute("lon")),
+      node.getElementsByTagName("time")[0]?.textContent,
+      index,
+    )
+  );
+}
+
+// A missing or blank attribute is not a 0
+function gpxNumber(value: string | null): number {
+  return value === null || value.trim() === "" ? NaN : Number(value);
+}
+
+// Accepts a LineString geometry, a Feature holding one, or the first
+// LineString in a FeatureCollection; timestamps come from the common
+// properties.coordTimes convention
+function parseGeoJson(data: unknown): TrackPoint[] {
+  if (typeof data !== "object" || data === null) {
+    throw new Error("GeoJSON is not an object");
+  }
+  const json = data as { type?: string };
+  if (json.type === "FeatureCollection") {
+    const features = (data as { features: Feature[] }).features ?? [];
+    const line = features.find((feature) =>
+      feature?.geometry?.type === "LineString"
+    );
+    if (!line) throw new Error("GeoJSON has no LineString feature");
+    return parseGeoJson(line);
+  }
+
+  let geometry: Geometry | null = null;
+  let times: unknown[] = [];
+  if (json.type === "Feature") {
+    const feature = data as Feature;
+    geometry = feature.geometry;
+    const coordTimes = feature.properties?.coordTimes;
+    if (Array.isArray(coordTimes)) times = coordTimes;
+  } else {
+    geometry = data as Geometry;
+  }
+  if (geometry?.type !== "LineString") {
+    throw new Error("GeoJSON is not a LineString");
+  }
+
+  const coordinates: unknown = (geometry as LineString).coordinates;
+  if (!Array.isArray(coordinates)) {
+    throw new Error("GeoJSON LineString has no coordinates");
+  }
+  return coordinates.map((position: unknown, index) => {
+    const [lng, lat] = Array.isArray(position) ? position : [];
+    return trackPoint(lat, lng, times[index], index);
+  });
+}
+
+// Throws unless the point has a usable latitude and longitude; a time
+// that doesn't parse counts as no time
+function trackPoint(
+  lat: unknown,
+  lng: unknown,
+  time: unknown,
+  index: number,
+): TrackPoint {
+  const valid = typeof lat === "number" && typeof lng === "number" &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+  if (!valid) {
+    throw new Error(`Track point ${index + 1} has no valid position`);
+  }
+  const ms = typeof time === "string"
+    ? Date.parse(time)
+    : typeof time === "number"
+    ? time
+    : NaN;
+  return { lat, lng, time: Number.isFinite(ms) ? ms : null };
+}
+
+export function trackToGeoJson(
+  points: TrackPoint[],
+  name: string,
+): Feature<LineString> {
+  return {
+    type: "Feature",
+    geometry: {
+      type: "LineString",
+      coordinates: points.map((point) => [point.lng, point.lat]),
+    },
+    properties: {
+      name,
+      coordTimes: points.map((point) =>
+        point.time === null ? null : new Date(point.time).toISOString()
+      ),
+    },
+  };
+}
+
+// Collects GPS fixes during a live session
+export class TrackRecorder {
+  private readonly points: TrackPoint[] = [];
+  readonly startedAt = Date.now();
+
+  add(lat: number, lng: number, time: number = Date.now()): void {
+    this.points.push({ lat, lng, time });
+  }
+
+  getPointCount(): number {
+    return this.points.length;
+  }
+
+  toGeoJson(): Feature<LineString> {
+    return trackToGeoJson(
+      this.points,
+      `GPS session ${new Date(this.startedAt).toISOString()}`,
+    );
+  }
+}
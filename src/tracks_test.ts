@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { parseTrack, TrackRecorder, trackToGeoJson } from "./tracks.ts";
+
+const T0 = Date.parse("2024-05-01T10:00:00Z");
+
+function lineFeature(coordinates: unknown[], coordTimes?: unknown[]) {
+  return JSON.stringify({
+    type: "Feature",
+    geometry: { type: "LineString", coordinates },
+    properties: coordTimes ? { coordTimes } : {},
+  });
+}
+
+Deno.test("reads a LineString with its coordTimes", () => {
+  const track = parseTrack(lineFeature(
+    [[13.4, 52.5], [13.41, 52.51, 34], [13.42, 52.52]],
+    ["2024-05-01T10:00:00Z", T0 + 5000, "not a time"],
+  ));
+  assert.deepEqual(track, [
+    { lat: 52.5, lng: 13.4, time: T0 },
+    { lat: 52.51, lng: 13.41, time: T0 + 5000 },
+    { lat: 52.52, lng: 13.42, time: null },
+  ]);
+});
+
+Deno.test("reads a bare geometry and the first line of a collection", () => {
+  const geometry = { type: "LineString", coordinates: [[1, 2], [3, 4]] };
+  assert.deepEqual(parseTrack(JSON.stringify(geometry)), [
+    { lat: 2, lng: 1, time: null },
+    { lat: 4, lng: 3, time: null },
+  ]);
+  const collection = {
+    type: "FeatureCollection",
+    features: [
+      { type: "Feature", geometry: { type: "Point", coordinates: [0, 0] } },
+      { type: "Feature", geometry, properties: null },
+    ],
+  };
+  assert.equal(parseTrack(JSON.stringify(collection)).length, 2);
+});
+
+Deno.test("rejects GeoJSON that isn't a track", () => {
+  assert.throws(() => parseTrack("null"), /not an object/);
+  assert.throws(
+    () => parseTrack('{"type":"Point","coordinates":[1,2]}'),
+    /not a LineString/,
+  );
+  assert.throws(
+    () => parseTrack('{"type":"FeatureCollection","features":[]}'),
+    /no LineString/,
+  );
+  assert.throws(() => parseTrack(lineFeature([])), /no points/);
+  assert.throws(
+    () => parseTrack('{"type":"LineString","coordinates":{}}'),
+    /no coordinates/,
+  );
+});
+
+Deno.test("rejects missing or non-numeric GeoJSON positions", () => {
+  const bad = [[1], ["1", 2], [1, null], 7, [1, 91], [181, 0]];
+  bad.forEach((position) => {
+    assert.throws(
+      () => parseTrack(lineFeature([[0, 0], position])),
+      /point 2 has no valid position/,
+      JSON.stringify(position),
+    );
+  });
+});
+
+// Deno has no DOMParser; these run where one exists
+const noDom = typeof DOMParser === "undefined";
+
+Deno.test({
+  name: "reads GPX track points with their times",
+  ignore: noDom,
+  fn: () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx><trk><trkseg>
+        <trkpt lat="52.5" lon="13.4"><time>2024-05-01T10:00:00Z</time></trkpt>
+        <trkpt lat="52.51" lon="13.41"></trkpt>
+      </trkseg></trk></gpx>`;
+    assert.deepEqual(parseTrack(gpx), [
+      { lat: 52.5, lng: 13.4, time: T0 },
+      { lat: 52.51, lng: 13.41, time: null },
+    ]);
+  },
+});
+
+Deno.test({
+  name: "rejects GPX points without a position",
+  ignore: noDom,
+  fn: () => {
+    const gpx = (point: string) =>
+      `<gpx><rte><rtept lat="1" lon="2"/>${point}</rte></gpx>`;
+    assert.throws(() => parseTrack(gpx('<rtept lat="1"/>')), /point 2/);
+    assert.throws(() => parseTrack(gpx('<rtept lat="" lon="2"/>')), /point 2/);
+    assert.throws(() => parseTrack(gpx('<rtept lat="x" lon="2"/>')), /point 2/);
+    assert.throws(() => parseTrack("<gpx><broken></gpx>"), /Invalid GPX/);
+  },
+});
+
+Deno.test("a recorded session reads back as the same track", () => {
+  const recorder = new TrackRecorder();
+  recorder.add(52.5, 13.4, T0);
+  recorder.add(52.51, 13.41, T0 + 1000);
+  assert.equal(recorder.getPointCount(), 2);
+  assert.deepEqual(parseTrack(JSON.stringify(recorder.toGeoJson())), [
+    { lat: 52.5, lng: 13.4, time: T0 },
+    { lat: 52.51, lng: 13.41, time: T0 + 1000 },
+  ]);
+
+  const untimed = trackToGeoJson([{ lat: 1, lng: 2, time: null }], "walk");
+  assert.deepEqual(untimed.properties, { name: "walk", coordTimes: [null] });
+});
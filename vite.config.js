@@ -1,6 +1,35 @@
+// Serve map tiles from a local directory laid out as {z}/{x}/{y}.png, for
+// the "Local tiles" basemap when offline:
+//   TILE_DIR=/path/to/tiles deno task dev
+// Without TILE_DIR, tiles placed in public/tiles are served as usual.
+const tileDir = Deno.env.get("TILE_DIR");
+
+function localTiles() {
+  return {
+    name: "local-tiles",
+    configureServer(server) {
+      if (!tileDir) return;
+      server.middlewares.use(async (req, res, next) => {
+        const match = req.url?.match(/\/tiles\/(\d+)\/(\d+)\/(\d+)\.png$/);
+        if (!match) return next();
+        const [, z, x, y] = match;
+        try {
+          const tile = await Deno.readFile(`${tileDir}/${z}/${x}/${y}.png`);
+          res.setHeader("Content-Type", "image/png");
+          res.end(tile);
+        } catch {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default {
   base: Deno.env.get("REPO_NAME") || "/project",
+  plugins: [localTiles()],
   server: {
     port: 3000,
     open: true,